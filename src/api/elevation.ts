@@ -1,124 +1,271 @@
 import { Config } from "../config/config.ts";
-import { delay } from "../deps.ts";
-import { decode } from "https://deno.land/x/pngs@0.1.1/mod.ts";
+import { delay, path } from "../deps.ts";
+import {
+  BoundingBox,
+  Coordinate,
+  generateBoundingBoxGrid,
+  getCoordinatesBoundingBox,
+  getGridSpacing,
+} from "../utils/coordinates.ts";
+import { ConcurrencyPool } from "../utils/concurrency-pool.ts";
+import { DiskCache } from "../utils/disk-cache.ts";
+import { QuotaStore } from "../utils/quota-store.ts";
+import {
+  DecodedTile,
+  ElevationData,
+  ElevationProvider,
+  ElevationResponse,
+  getElevationProvider,
+  listElevationProviders,
+  TileResponse,
+} from "./providers/index.ts";
+import {
+  getFractionalTilePosition,
+  getTileCoordinates,
+  sampleTile,
+  sampleTileAt,
+  selectTileZoom,
+} from "./tile-sampling.ts";
 
-export interface ElevationData {
-  latitude: number;
-  longitude: number;
-  elevation: number;
-}
+export type { ElevationData, ElevationProvider, ElevationResponse } from "./providers/index.ts";
+export { getTileCoordinates } from "./tile-sampling.ts";
+
+const DEFAULT_TILE_ZOOM = 14;
+const DEFAULT_TILE_SIZE = 256;
+const MAX_GRID_TILES = 64; // Tiles stitched for one grid before falling back to a lower zoom
+const METERS_PER_DEGREE = 111000;
 
-export interface ElevationResponse {
-  status: string;
-  data: ElevationData[];
-  error?: string;
-  rateLimited?: boolean;
-  isWater?: boolean;
-  fromCache?: boolean;
+export interface ElevationRequestOptions {
+  gridSpacing?: number; // Distance between requested points in meters, used to pick the tile zoom
+  area?: BoundingBox; // Extent of the whole render, defaults to the extent of the requested points
 }
 
-let lastRequestTime = 0;
-let dailyRequestCount = 0;
-const MAX_DAILY_REQUESTS = 1000; // OpenTopoData limit: 1000 calls per day
+// Request tracking per provider; daily counts are persisted in the cache directory
+const lastRequestTimes = new Map<string, number>();
+let quotaStore: QuotaStore | null = null;
 
+// Provider response with one slot per requested coordinate, empty where there is no data
+interface IndexedElevationResponse extends ElevationResponse {
+  points: Array<ElevationData | undefined>;
+}
 
-interface CachedTile {
-  tileData: Uint8Array;
-  width: number;
-  height: number;
+interface CachedTile extends DecodedTile {
   timestamp: number;
 }
 
 const tileCache = new Map<string, CachedTile>();
-const MAX_CACHE_SIZE = 1000; // Maximum number of tiles to cache
+const MAX_CACHE_SIZE = 1000; // Maximum number of tiles to keep in memory
+
+// Tiles being downloaded, so concurrent lookups of the same tile share one request
+const inFlightTiles = new Map<string, Promise<TileResponse & { fromCache?: boolean }>>();
+let tileDownloadPool: ConcurrencyPool | null = null;
+
+// Decoded tiles and point results persisted across runs
+let diskCache: DiskCache | null = null;
+const cacheStats = { memoryHits: 0, diskHits: 0, misses: 0 };
+
+/**
+ * Get the elevation provider selected in the configuration (the first of the chain, if any)
+ */
+export function resolveElevationProvider(config: Config): ElevationProvider {
+  const name = config.apis.elevation.providers?.[0]?.name ?? config.apis.elevation.provider;
+  const provider = getElevationProvider(name);
+  if (!provider) {
+    throw new Error(`Unknown elevation provider: ${name} (available: ${listElevationProviders().join(", ")})`);
+  }
+  return provider;
+}
+
+/**
+ * One config per provider of the fallback chain, in order, each carrying that
+ * provider's credentials. Just the configured provider when no chain is set.
+ */
+export function getElevationProviderChain(config: Config): Config[] {
+  const { providers, ...elevation } = config.apis.elevation;
+  if (!providers || providers.length === 0) {
+    return [config];
+  }
+
+  return providers.map((entry) => ({
+    ...config,
+    apis: {
+      ...config.apis,
+      elevation: {
+        ...elevation,
+        provider: entry.name,
+        apiKey: entry.apiKey ?? elevation.apiKey,
+        baseUrl: entry.baseUrl ?? getElevationProvider(entry.name)?.defaultBaseUrl ?? elevation.baseUrl,
+      },
+    },
+  }));
+}
+
+/**
+ * Config that fetches from the bathymetry provider, for seafloor renders.
+ * Credentials come from the matching fallback chain entry when there is one.
+ */
+export function getBathymetryConfig(config: Config): Config {
+  const { bathymetry, providers } = config.apis.elevation;
+  const entry = providers?.find((provider) => provider.name === bathymetry.provider) ?? { name: bathymetry.provider };
 
-type ElevationConfig = Config & { cachingEnabled?: boolean };
+  return {
+    ...config,
+    apis: {
+      ...config.apis,
+      elevation: {
+        ...config.apis.elevation,
+        providers: [entry],
+        dataset: bathymetry.dataset,
+        datasetRules: [], // Regional land datasets have no ocean depths
+      },
+    },
+  };
+}
 
 /**
  * Fetches elevation data for a given coordinate
  */
-export async function fetchElevation(
+export function fetchElevation(
   latitude: number,
   longitude: number,
+  config: Config,
+  options: ElevationRequestOptions = {}
+): Promise<ElevationResponse> {
+  return fetchWithFallback(
+    [{ latitude, longitude }],
+    config,
+    async (_, providerConfig) => {
+      const response = await fetchPointFromProvider(latitude, longitude, providerConfig, options);
+      return { ...response, points: [response.data[0]] };
+    }
+  );
+}
+
+/**
+ * Fetches elevation data for many coordinates at once.
+ * Results are returned in the same order as the input coordinates; points that
+ * could not be fetched from any provider are left out.
+ */
+export function fetchElevationBatch(
+  coordinates: Coordinate[],
+  config: Config,
+  options: ElevationRequestOptions = {}
+): Promise<ElevationResponse> {
+  return fetchWithFallback(
+    coordinates,
+    config,
+    (missing, providerConfig) => fetchBatchFromProvider(missing, providerConfig, options)
+  );
+}
+
+/**
+ * Fetches a resolution x resolution elevation grid spanning a bounding box, in the
+ * order of generateBoundingBoxGrid. Tile providers download the covering tiles once,
+ * stitch them and resample the grid from the mosaic; point providers fall back to
+ * batch lookups. Points a provider could not deliver are asked from the next one.
+ */
+export function fetchElevationGrid(
+  bbox: BoundingBox,
+  resolution: number,
   config: Config
 ): Promise<ElevationResponse> {
-  const effectiveConfig = config as ElevationConfig;
-  
-  // Check for cached data first before anything else
-  const tileKey = getTileKey(latitude, longitude);
-  if (tileCache.has(tileKey)) {
-    //console.log(`Using cached tile for: ${latitude}, ${longitude} (tile: ${tileKey})`);
-    try {
-      // Get the cached tile
-      const cachedTile = tileCache.get(tileKey);
-      if (!cachedTile) throw new Error("Cached tile not found");
-      
-      // Split the tileKey to get coordinates
-      const [zoom, x, y] = tileKey.split('-').map(Number);
-      
-      // Extract elevation using the full parameter set
-      const elevation = extractElevationFromTile(
-        cachedTile.tileData,
-        cachedTile.width,
-        cachedTile.height,
-        latitude,
-        longitude,
-        x,
-        y,
-        zoom
-      );
-      
-      // Return properly formatted data
-      return {
-        status: "success",
-        data: [{
-          latitude,
-          longitude,
-          elevation: Math.round(elevation)
-        }],
-        fromCache: true
-      };
-    } catch (error) {
-      console.warn(`Failed to use cached elevation data: ${error instanceof Error ? error.message : String(error)}`);
-      // Continue to fetch from API
+  const grid = generateBoundingBoxGrid(bbox, resolution);
+  const gridSpacing = getBoundingBoxGridSpacing(bbox, resolution);
+
+  return fetchWithFallback(grid, config, (missing, providerConfig) =>
+    missing.length === grid.length
+      ? fetchGridFromProvider(bbox, resolution, providerConfig)
+      : fetchBatchFromProvider(missing, providerConfig, { gridSpacing, area: bbox })
+  );
+}
+
+/**
+ * Ask each provider of the chain in turn for the coordinates still missing.
+ * A provider that fails, is rate limited or leaves points out falls through to the next one.
+ */
+async function fetchWithFallback(
+  coordinates: Coordinate[],
+  config: Config,
+  request: (missing: Coordinate[], providerConfig: Config) => Promise<IndexedElevationResponse>
+): Promise<ElevationResponse> {
+  const chain = getElevationProviderChain(config);
+  const results: Array<ElevationData | undefined> = new Array(coordinates.length);
+  const usedProviders: string[] = [];
+  let lastFailure: ElevationResponse | undefined;
+
+  for (let position = 0; position < chain.length; position++) {
+    const providerConfig = chain[position];
+    const providerName = providerConfig.apis.elevation.provider;
+    const missing = coordinates.map((_, index) => index).filter((index) => results[index] === undefined);
+    if (missing.length === 0) break;
+
+    const response = await request(missing.map((index) => coordinates[index]), providerConfig);
+
+    missing.forEach((index, position) => {
+      results[index] = response.points[position];
+    });
+
+    if (response.data.length > 0) {
+      usedProviders.push(providerName);
     }
+
+    if (response.status !== "success" || response.error) {
+      lastFailure = response;
+    }
+
+    const stillMissing = missing.filter((index) => results[index] === undefined).length;
+    if (stillMissing > 0 && position < chain.length - 1) {
+      const nextProvider = chain[position + 1].apis.elevation.provider;
+      console.warn(`${providerName} could not deliver ${stillMissing} points (${response.error ?? "no data"}), falling back to ${nextProvider}`);
+    }
+  }
+
+  const data = results.filter((point): point is ElevationData => point !== undefined);
+
+  if (data.length === 0 && lastFailure) {
+    return { ...lastFailure, data: [] };
   }
 
-  // Fetch from configured provider
-  let response: ElevationResponse;
-  const provider = config.apis.elevation.provider.toLowerCase();
+  return {
+    status: "success",
+    data,
+    error: data.length < coordinates.length ? lastFailure?.error : undefined,
+    rateLimited: data.length < coordinates.length ? lastFailure?.rateLimited : undefined,
+    provider: usedProviders.join(", "),
+  };
+}
 
+/**
+ * Fetch one coordinate from a single provider
+ */
+async function fetchPointFromProvider(
+  latitude: number,
+  longitude: number,
+  config: Config,
+  options: ElevationRequestOptions = {}
+): Promise<ElevationResponse> {
   try {
-    switch (provider) {
-      case "opentopodata":
-        response = await fetchFromOpenTopoData(latitude, longitude, effectiveConfig);
-        break;
-      case "mapbox":
-        response = await fetchFromMapbox(latitude, longitude, effectiveConfig);
-        break;
-      default:
-        response = {
-          status: "error",
-          data: [],
-          error: `Unknown elevation provider: ${provider}`
-        };
+    const provider = resolveElevationProvider(config);
+
+    if (provider.capabilities.kind === "tile") {
+      const zoom = getTileZoom(provider, latitude, config, options);
+      return await fetchPointFromTiles(provider, latitude, longitude, zoom, config);
     }
 
-    // Cache successful results
-    if (
-      response.status === "success" &&
-      response.data.length > 0 &&
-      !response.fromCache
-    ) {
-      // Store the data in the cache
-      if (provider === "mapbox" && response.data[0]) {
-        // We already cache the tile in the Mapbox handler
-      } else if (response.data[0]) {
-        // Simple caching for other providers
-        cacheTileData(tileKey, response.data[0]);
-      }
+    // Check for cached data first before anything else
+    const cachedElevation = await getCachedPoint(provider, latitude, longitude, config, options.area);
+    if (cachedElevation !== undefined) {
+      return {
+        status: "success",
+        data: [{ latitude, longitude, elevation: cachedElevation }],
+        fromCache: true
+      };
     }
 
+    const response = await requestPoints(provider, [{ latitude, longitude }], config, options.area);
+    if (response.status === "success") {
+      await cachePoints(provider, response.data, config, options.area);
+    }
     return response;
   } catch (error) {
     return {
@@ -131,145 +278,637 @@ export async function fetchElevation(
 }
 
 /**
- * Extract elevation from tile data (either freshly decoded or from cache)
+ * Fetch many coordinates from a single provider, in input order
  */
-function extractElevationFromTile(
-  imageData: Uint8Array, 
-  width: number, 
-  height: number, 
-  latitude: number, 
-  longitude: number, 
-  tileX: number, 
-  tileY: number, 
-  zoom: number
-): number {
-  // Calculate exact position in the tile
-  const position = getPositionInTile(latitude, longitude, zoom, tileX, tileY);
-  
-  // Ensure position is within bounds
-  const x = Math.min(Math.max(position.x, 0), width - 1);
-  const y = Math.min(Math.max(position.y, 0), height - 1);
-  
-  // Create grid around the target point for more accurate sampling
-  const elevations: number[] = [];
-  const radius = 1;
-  
-  for (let yOffset = -radius; yOffset <= radius; yOffset++) {
-    for (let xOffset = -radius; xOffset <= radius; xOffset++) {
-      const sampleX = x + xOffset;
-      const sampleY = y + yOffset;
-      
-      if (sampleX < 0 || sampleX >= width || sampleY < 0 || sampleY >= height) {
-        continue;
+async function fetchBatchFromProvider(
+  coordinates: Coordinate[],
+  config: Config,
+  options: ElevationRequestOptions = {}
+): Promise<IndexedElevationResponse> {
+  let provider: ElevationProvider;
+  try {
+    provider = resolveElevationProvider(config);
+  } catch (error) {
+    return { status: "error", data: [], points: [], error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const results: Array<ElevationData | undefined> = new Array(coordinates.length);
+  let lastFailure: ElevationResponse | undefined;
+
+  if (provider.capabilities.kind === "point") {
+    // Only ask the provider for points we have not seen before
+    const area = options.area ?? getCoordinatesBoundingBox(coordinates);
+    const missing: number[] = [];
+    for (let index = 0; index < coordinates.length; index++) {
+      const { latitude, longitude } = coordinates[index];
+      const cachedElevation = await getCachedPoint(provider, latitude, longitude, config, area);
+      if (cachedElevation !== undefined) {
+        results[index] = { latitude, longitude, elevation: cachedElevation };
+      } else {
+        missing.push(index);
+      }
+    }
+
+    if (missing.length < coordinates.length) {
+      console.log(`Using cached elevation for ${coordinates.length - missing.length}/${coordinates.length} points`);
+    }
+
+    // Send as many locations per request as the provider accepts
+    const batchSize = provider.capabilities.maxBatchSize;
+    for (let start = 0; start < missing.length; start += batchSize) {
+      const chunkIndexes = missing.slice(start, start + batchSize);
+      const chunk = chunkIndexes.map((index) => coordinates[index]);
+      const response = await requestPoints(provider, chunk, config, area);
+
+      if (response.status === "success") {
+        // Providers may leave out points they have no data for, so match results by
+        // coordinate; a coordinate asked twice gets the same point in both places
+        const indexesByCoordinate = new Map<string, number[]>();
+        for (const index of chunkIndexes) {
+          const key = getCoordinateKey(coordinates[index]);
+          indexesByCoordinate.set(key, [...(indexesByCoordinate.get(key) ?? []), index]);
+        }
+        for (const point of response.data) {
+          for (const index of indexesByCoordinate.get(getCoordinateKey(point)) ?? []) {
+            results[index] = point;
+          }
+        }
+        await cachePoints(provider, response.data, config, area);
+      } else {
+        console.warn(` ✗ Error fetching elevation for ${chunk.length} points: ${response.error}`);
+        lastFailure = response;
       }
-      
-      const idx = (sampleY * width + sampleX) * 4;
-      const r = imageData[idx];
-      const g = imageData[idx + 1];
-      const b = imageData[idx + 2];
-      
-      // Formula from Mapbox documentation
-      // -10000 + ((R * 256 * 256 + G * 256 + B) * 0.1)
-      const elevation = -10000 + ((r * 256 * 256 + g * 256 + b) * 0.1);
-      
-      if (!isNaN(elevation) && isFinite(elevation)) {
-        elevations.push(elevation);
+    }
+  } else {
+    // Tile-based providers: download each tile the points fall in once, a few at a time
+    const centerLatitude = coordinates.reduce((sum, point) => sum + point.latitude, 0) / coordinates.length;
+    const zoom = getTileZoom(provider, centerLatitude, config, options);
+    const tiles = new Map<string, Promise<TileResponse>>();
+
+    for (const { latitude, longitude } of coordinates) {
+      const { x, y } = getTileCoordinates(latitude, longitude, zoom);
+      if (!tiles.has(`${x}-${y}`)) {
+        tiles.set(`${x}-${y}`, loadTile(provider, zoom, x, y, config));
+      }
+    }
+
+    for (let index = 0; index < coordinates.length; index++) {
+      const { latitude, longitude } = coordinates[index];
+      const tileCoords = getTileCoordinates(latitude, longitude, zoom);
+      const response = await tiles.get(`${tileCoords.x}-${tileCoords.y}`)!;
+
+      try {
+        if (response.status !== "success" || !response.tile) {
+          throw new Error(response.error);
+        }
+
+        const elevation = sampleTileAt(
+          response.tile,
+          latitude,
+          longitude,
+          tileCoords.x,
+          tileCoords.y,
+          zoom,
+          config.apis.elevation.sampling
+        );
+        results[index] = { latitude, longitude, elevation: Math.round(elevation) };
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(` ✗ Error fetching elevation: ${message}`);
+        lastFailure = { status: "error", data: [], error: message, rateLimited: response.rateLimited };
       }
     }
   }
-  
-  if (elevations.length === 0) {
-    throw new Error("No valid elevation values found in the tile");
+
+  const data = results.filter((point): point is ElevationData => point !== undefined);
+
+  if (data.length === 0 && lastFailure) {
+    return { ...lastFailure, data: [], points: results };
   }
-  
-  // Return the average elevation
-  return elevations.reduce((sum, e) => sum + e, 0) / elevations.length;
+
+  return {
+    status: "success",
+    data,
+    points: results,
+    error: lastFailure?.error,
+    rateLimited: lastFailure?.rateLimited,
+  };
 }
 
 /**
- * Calculate the exact position within a tile for lat/lon coordinates
+ * Fetch a grid from a single provider, stitching tiles for tile providers
  */
-function getPositionInTile(lat: number, lon: number, zoom: number, tileX: number, tileY: number, tileSize: number = 512): { x: number; y: number } {
-  const n = Math.pow(2, zoom);
-  
-  // Get tile coordinates (floating point)
-  const xTile = (lon + 180) / 360 * n;
-  const yTile = (1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n;
-  
-  // Get the position within the tile
-  const xPixel = Math.floor((xTile - tileX) * tileSize);
-  const yPixel = Math.floor((yTile - tileY) * tileSize);
-  
-  return { x: xPixel, y: yPixel };
+async function fetchGridFromProvider(
+  bbox: BoundingBox,
+  resolution: number,
+  config: Config
+): Promise<IndexedElevationResponse> {
+  const grid = generateBoundingBoxGrid(bbox, resolution);
+  const gridSpacing = getBoundingBoxGridSpacing(bbox, resolution);
+
+  let provider: ElevationProvider;
+  try {
+    provider = resolveElevationProvider(config);
+  } catch (error) {
+    return { status: "error", data: [], points: [], error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (provider.capabilities.kind === "point") {
+    return fetchBatchFromProvider(grid, config, { gridSpacing, area: bbox });
+  }
+
+  try {
+    const { zoom, range } = planGridTiles(provider, bbox, resolution, config);
+    console.log(`Stitching ${range.columns * range.rows} ${provider.name} tiles at zoom ${zoom}`);
+
+    const mosaic = await buildTileMosaic(provider, zoom, range, config);
+    const method = config.apis.elevation.sampling;
+    const points = grid.map(({ latitude, longitude }): ElevationData | undefined => {
+      const position = getFractionalTilePosition(latitude, longitude, zoom);
+      const px = (position.x - range.minX) * mosaic.tileSize - 0.5;
+      const py = (position.y - range.minY) * mosaic.tileSize - 0.5;
+      const elevation = sampleTile(mosaic, px, py, method);
+
+      return isFinite(elevation) ? { latitude, longitude, elevation: Math.round(elevation) } : undefined;
+    });
+    const data = points.filter((point): point is ElevationData => point !== undefined);
+
+    if (data.length === 0) {
+      return {
+        status: "error",
+        data: [],
+        points: [],
+        error: mosaic.error ?? "No elevation data in the requested area",
+        rateLimited: mosaic.rateLimited
+      };
+    }
+
+    return { status: "success", data, points, error: mosaic.error, rateLimited: mosaic.rateLimited };
+  } catch (error: unknown) {
+    return {
+      status: "error",
+      data: [],
+      points: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
 }
 
 /**
- * Normalizes the response from different elevation API providers
+ * Start downloading the tiles of a grid so a later fetchElevationGrid finds them
+ * cached or in flight. Does nothing for point providers; errors are only logged.
  */
-function normalizeElevationResponse(
-  data: unknown,
-  provider: string
-): ElevationResponse {
+export async function prefetchElevationGrid(
+  bbox: BoundingBox,
+  resolution: number,
+  config: Config
+): Promise<void> {
   try {
-    switch (provider.toLowerCase()) {
-      case "opentopodata": {
-        const topoData = data as { results?: Array<{ location: { lat: number; lng: number }; elevation: number }> };
-        if (!topoData.results || !Array.isArray(topoData.results)) {
-          throw new Error("Invalid OpenTopoData response format");
-        }
-        return {
-          status: "success",
-          data: topoData.results.map(result => ({
-            latitude: result.location.lat,
-            longitude: result.location.lng,
-            elevation: result.elevation,
-          })),
-        };
+    const providerConfig = getElevationProviderChain(config)[0];
+    const provider = resolveElevationProvider(providerConfig);
+    if (provider.capabilities.kind !== "tile") return;
+
+    const { zoom, range } = planGridTiles(provider, bbox, resolution, providerConfig);
+    const tilesAcross = Math.pow(2, zoom);
+    console.log(`Prefetching ${range.columns * range.rows} ${provider.name} tiles at zoom ${zoom}`);
+
+    const pending: Array<Promise<TileResponse>> = [];
+    for (let row = 0; row < range.rows; row++) {
+      for (let column = 0; column < range.columns; column++) {
+        pending.push(loadTile(provider, zoom, (range.minX + column) % tilesAcross, range.minY + row, providerConfig));
       }
-      default:
-        throw new Error(`Unsupported elevation provider: ${provider}`);
     }
+    await Promise.all(pending);
+  } catch (error: unknown) {
+    console.warn(`Tile prefetch failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Number of provider requests a grid would need at most, leaving out cached data
+ */
+export async function estimateGridRequests(
+  bbox: BoundingBox,
+  resolution: number,
+  config: Config
+): Promise<number> {
+  const provider = resolveElevationProvider(config);
+
+  if (provider.capabilities.kind === "point") {
+    let missing = 0;
+    for (const { latitude, longitude } of generateBoundingBoxGrid(bbox, resolution)) {
+      if (
+        provider.capabilities.skipCache ||
+        !(await getDiskCache(config).has(getPointKey(provider, config, bbox, latitude, longitude)))
+      ) {
+        missing++;
+      }
+    }
+    return Math.ceil(missing / provider.capabilities.maxBatchSize);
+  }
+
+  const { zoom, range } = planGridTiles(provider, bbox, resolution, config);
+  const tilesAcross = Math.pow(2, zoom);
+  let missing = 0;
+  for (let row = 0; row < range.rows; row++) {
+    for (let column = 0; column < range.columns; column++) {
+      const cacheKey = getTileKey(provider, config, zoom, (range.minX + column) % tilesAcross, range.minY + row);
+      if (!tileCache.has(cacheKey) && !(await getDiskCache(config).has(cacheKey))) {
+        missing++;
+      }
+    }
+  }
+  return missing;
+}
+
+/**
+ * Check that today's remaining quota covers a grid before starting to fetch it.
+ * With a fallback chain, one provider able to serve the whole grid is enough.
+ */
+export async function checkGridQuota(
+  bbox: BoundingBox,
+  resolution: number,
+  config: Config
+): Promise<{ allowed: boolean; required: number; remaining: number }> {
+  let firstResult: { allowed: boolean; required: number; remaining: number } | undefined;
+
+  for (const providerConfig of getElevationProviderChain(config)) {
+    const provider = resolveElevationProvider(providerConfig);
+    const { dailyQuota } = provider.capabilities;
+    if (dailyQuota === undefined) {
+      return { allowed: true, required: 0, remaining: Infinity };
+    }
+
+    const required = await estimateGridRequests(bbox, resolution, providerConfig);
+    const remaining = dailyQuota - await getQuotaStore(config).getCount(provider.name);
+    const result = { allowed: required <= remaining, required, remaining };
+    if (result.allowed) {
+      return result;
+    }
+    firstResult ??= result;
+  }
+
+  return firstResult!;
+}
+
+function getBoundingBoxGridSpacing(bbox: BoundingBox, resolution: number): number {
+  return (bbox.maxLat - bbox.minLat) * METERS_PER_DEGREE / Math.max(resolution - 1, 1);
+}
+
+/**
+ * Zoom and tile range used to fetch a grid, lowering the zoom when too many tiles are needed
+ */
+function planGridTiles(
+  provider: ElevationProvider,
+  bbox: BoundingBox,
+  resolution: number,
+  config: Config
+): { zoom: number; range: TileRange } {
+  const centerLatitude = (bbox.minLat + bbox.maxLat) / 2;
+  const gridSpacing = getBoundingBoxGridSpacing(bbox, resolution);
+  let zoom = getTileZoom(provider, centerLatitude, config, { gridSpacing });
+
+  // Tile range covering the box; the north edge has the smallest tile y
+  let range = getTileRange(bbox, zoom);
+  while (zoom > 0 && range.columns * range.rows > MAX_GRID_TILES) {
+    zoom--;
+    range = getTileRange(bbox, zoom);
+  }
+
+  return { zoom, range };
+}
+
+interface TileRange {
+  minX: number;
+  minY: number;
+  columns: number;
+  rows: number;
+}
+
+function getTileRange(bbox: BoundingBox, zoom: number): TileRange {
+  const northWest = getTileCoordinates(bbox.maxLat, bbox.minLon, zoom);
+  const southEast = getTileCoordinates(bbox.minLat, bbox.maxLon, zoom);
+
+  return {
+    minX: northWest.x,
+    minY: northWest.y,
+    columns: southEast.x - northWest.x + 1,
+    rows: southEast.y - northWest.y + 1,
+  };
+}
+
+/**
+ * Download the tiles of a range and copy them into one continuous raster,
+ * so sampling can interpolate across tile edges. Missing tiles are left as NaN.
+ */
+async function buildTileMosaic(
+  provider: ElevationProvider,
+  zoom: number,
+  range: TileRange,
+  config: Config
+): Promise<DecodedTile & { tileSize: number; error?: string; rateLimited?: boolean }> {
+  const tilesAcross = Math.pow(2, zoom);
+  let elevations: Float32Array | null = null;
+  let tileSize = 0;
+  let lastError: string | undefined;
+  let rateLimited = false;
+
+  // Start every download up front, the pool keeps a few of them in flight
+  const pending: Array<Promise<TileResponse>> = [];
+  for (let row = 0; row < range.rows; row++) {
+    for (let column = 0; column < range.columns; column++) {
+      // Wrap around the antimeridian
+      pending.push(loadTile(provider, zoom, (range.minX + column) % tilesAcross, range.minY + row, config));
+    }
+  }
+
+  for (let row = 0; row < range.rows; row++) {
+    for (let column = 0; column < range.columns; column++) {
+      const x = (range.minX + column) % tilesAcross;
+      const y = range.minY + row;
+      const response = await pending[row * range.columns + column];
+
+      if (response.status !== "success" || !response.tile) {
+        console.warn(` ✗ Error fetching tile ${zoom}/${x}/${y}: ${response.error}`);
+        lastError = response.error;
+        rateLimited = rateLimited || !!response.rateLimited;
+        continue;
+      }
+
+      const tile = response.tile;
+      if (!elevations) {
+        tileSize = tile.width;
+        elevations = new Float32Array(range.columns * tileSize * range.rows * tileSize).fill(NaN);
+      }
+      if (tile.width !== tileSize || tile.height !== tileSize) {
+        throw new Error(`Tile ${zoom}/${x}/${y} is ${tile.width}x${tile.height}, expected ${tileSize}x${tileSize}`);
+      }
+
+      const mosaicWidth = range.columns * tileSize;
+      for (let line = 0; line < tileSize; line++) {
+        elevations.set(
+          tile.elevations.subarray(line * tileSize, (line + 1) * tileSize),
+          (row * tileSize + line) * mosaicWidth + column * tileSize
+        );
+      }
+    }
+  }
+
+  if (!elevations) {
+    throw new Error(lastError ?? "No tiles could be downloaded");
+  }
+
+  return {
+    elevations,
+    width: range.columns * tileSize,
+    height: range.rows * tileSize,
+    tileSize,
+    error: lastError,
+    rateLimited: rateLimited || undefined,
+  };
+}
+
+/**
+ * Sample one coordinate from the provider's tiles, downloading the tile if needed
+ */
+async function fetchPointFromTiles(
+  provider: ElevationProvider,
+  latitude: number,
+  longitude: number,
+  zoom: number,
+  config: Config
+): Promise<ElevationResponse> {
+  try {
+    const tileCoords = getTileCoordinates(latitude, longitude, zoom);
+    const response = await loadTile(provider, zoom, tileCoords.x, tileCoords.y, config);
+    if (response.status !== "success" || !response.tile) {
+      return {
+        status: "error",
+        data: [],
+        error: response.error,
+        rateLimited: response.rateLimited
+      };
+    }
+
+    const { tile, fromCache } = response;
+    const elevation = sampleTileAt(
+      tile,
+      latitude,
+      longitude,
+      tileCoords.x,
+      tileCoords.y,
+      zoom,
+      config.apis.elevation.sampling
+    );
+
+    return {
+      status: "success",
+      data: [{
+        latitude,
+        longitude,
+        elevation: Math.round(elevation)
+      }],
+      fromCache
+    };
   } catch (error: unknown) {
-    console.error(`Error normalizing elevation data: ${error instanceof Error ? error.message : String(error)}`);
     return {
       status: "error",
       data: [],
-      error: `Failed to normalize elevation response: ${error instanceof Error ? error.message : String(error)}`,
+      error: error instanceof Error ? error.message : String(error)
     };
   }
 }
 
 /**
- * Convert latitude and longitude to tile coordinates at a specific zoom level
- * @param lat Latitude in degrees
- * @param lon Longitude in degrees
- * @param zoom Zoom level
- * @returns Object containing x and y tile coordinates
+ * Get a decoded tile from the cache, downloading it if needed.
+ * Concurrent calls for the same tile share a single download.
  */
-export function getTileCoordinates(lat: number, lon: number, zoom: number): { x: number; y: number } {
-  // Convert to radians
-  const latRad = lat * Math.PI / 180;
-  
-  // Calculate tile coordinates
-  const n = Math.pow(2, zoom);
-  const x = Math.floor((lon + 180) / 360 * n);
-  const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n);
-  
-  return { x, y };
+function loadTile(
+  provider: ElevationProvider,
+  zoom: number,
+  x: number,
+  y: number,
+  config: Config
+): Promise<TileResponse & { fromCache?: boolean }> {
+  const cacheKey = getTileKey(provider, config, zoom, x, y);
+
+  let pending = inFlightTiles.get(cacheKey);
+  if (!pending) {
+    pending = loadTileOnce(provider, zoom, x, y, config).finally(() => inFlightTiles.delete(cacheKey));
+    inFlightTiles.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+async function loadTileOnce(
+  provider: ElevationProvider,
+  zoom: number,
+  x: number,
+  y: number,
+  config: Config
+): Promise<TileResponse & { fromCache?: boolean }> {
+  const cacheKey = getTileKey(provider, config, zoom, x, y);
+
+  const cachedTile = await getCachedTile(cacheKey, config);
+  if (cachedTile) {
+    return { status: "success", tile: cachedTile, fromCache: true };
+  }
+
+  const response = await requestTile(provider, zoom, x, y, config);
+  if (response.status !== "success" || !response.tile) {
+    return response;
+  }
+
+  const tile = { ...response.tile, timestamp: Date.now() };
+  await cacheTile(cacheKey, tile, config);
+  return { status: "success", tile, fromCache: false };
+}
+
+/**
+ * Send one point request to a provider, respecting its request interval and daily quota
+ */
+async function requestPoints(
+  provider: ElevationProvider,
+  locations: Coordinate[],
+  config: Config,
+  area?: BoundingBox
+): Promise<ElevationResponse> {
+  if (!provider.fetchPoints) {
+    return { status: "error", data: [], error: `Provider ${provider.name} does not support point lookups` };
+  }
+
+  const quotaError = await waitForProviderSlot(provider, config);
+  if (quotaError) {
+    return { status: "error", data: [], error: quotaError, rateLimited: true };
+  }
+
+  // Retries are requests too: count each one against the daily quota
+  return provider.fetchPoints(locations, config, area, async () => {
+    await getQuotaStore(config).increment(provider.name);
+  });
+}
+
+/**
+ * Send one tile request to a provider, respecting its request interval, daily quota
+ * and the number of downloads allowed at once
+ */
+function requestTile(
+  provider: ElevationProvider,
+  zoom: number,
+  x: number,
+  y: number,
+  config: Config
+): Promise<TileResponse> {
+  if (!provider.fetchTile) {
+    return Promise.resolve({ status: "error", error: `Provider ${provider.name} does not serve tiles` });
+  }
+
+  const fetchTile = provider.fetchTile;
+  return getTileDownloadPool(config).run(async () => {
+    const quotaError = await waitForProviderSlot(provider, config);
+    if (quotaError) {
+      return { status: "error", error: quotaError, rateLimited: true };
+    }
+
+    return fetchTile(zoom, x, y, config);
+  });
+}
+
+function getTileDownloadPool(config: Config): ConcurrencyPool {
+  if (!tileDownloadPool) {
+    tileDownloadPool = new ConcurrencyPool(config.apis.elevation.maxConcurrentRequests);
+  }
+  return tileDownloadPool;
+}
+
+/**
+ * Apply the provider's rate limit and count the request.
+ * Returns an error message if the daily quota is exhausted.
+ */
+async function waitForProviderSlot(provider: ElevationProvider, config: Config): Promise<string | null> {
+  const { dailyQuota, minRequestInterval } = provider.capabilities;
+  const dailyCount = await getQuotaStore(config).getCount(provider.name);
+
+  // Check daily limit
+  if (dailyQuota !== undefined && dailyCount >= dailyQuota) {
+    console.error(`Daily ${provider.name} request limit exceeded (${dailyQuota} calls per day)`);
+    return `Daily request limit exceeded (${dailyQuota} calls per day)`;
+  }
+
+  // Apply rate limiting
+  const lastRequestTime = lastRequestTimes.get(provider.name) ?? 0;
+  const timeSinceLastRequest = Date.now() - lastRequestTime;
+
+  if (timeSinceLastRequest < minRequestInterval && lastRequestTime > 0) {
+    const waitTime = minRequestInterval - timeSinceLastRequest;
+    console.log(`Rate limit protection: Waiting ${waitTime}ms before making request`);
+    await delay(waitTime);
+  }
+
+  // Update request tracking
+  lastRequestTimes.set(provider.name, Date.now());
+  await getQuotaStore(config).increment(provider.name);
+  return null;
+}
+
+/**
+ * Pick the tile zoom for a request: the configured zoom if any, otherwise the
+ * lowest zoom whose pixels are about as fine as the requested grid spacing
+ */
+function getTileZoom(
+  provider: ElevationProvider,
+  latitude: number,
+  config: Config,
+  options: ElevationRequestOptions
+): number {
+  const maxZoom = provider.capabilities.maxZoom ?? DEFAULT_TILE_ZOOM;
+
+  if (config.apis.elevation.tileZoom !== undefined) {
+    return Math.min(config.apis.elevation.tileZoom, maxZoom);
+  }
+
+  const gridSpacing = options.gridSpacing ??
+    getGridSpacing(config.geographic.areaSize, config.geographic.resolution);
+
+  return selectTileZoom(
+    gridSpacing,
+    latitude,
+    provider.capabilities.tileSize ?? DEFAULT_TILE_SIZE,
+    maxZoom
+  );
 }
+
 /**
- * Returns the current request statistics
+ * Returns the current request statistics for a provider (OpenTopoData by default)
  */
-export function getRequestStats(): {dailyCount: number, remaining: number, cachedTiles: number} {
+export function getRequestStats(provider = "opentopodata"): {
+  dailyCount: number;
+  remaining: number;
+  cachedTiles: number;
+  cacheHits: number;
+  diskCacheHits: number;
+  cacheMisses: number;
+  diskCacheEntries: number;
+  diskCacheBytes: number;
+} {
+  const providerName = provider.toLowerCase();
+  const dailyCount = quotaStore?.peek(providerName) ?? 0;
+  const dailyQuota = getElevationProvider(providerName)?.capabilities.dailyQuota ?? Infinity;
+  const diskStats = diskCache?.stats();
   return {
-    dailyCount: dailyRequestCount,
-    remaining: MAX_DAILY_REQUESTS - dailyRequestCount,
-    cachedTiles: tileCache.size
+    dailyCount,
+    remaining: dailyQuota - dailyCount,
+    cachedTiles: tileCache.size,
+    cacheHits: cacheStats.memoryHits + cacheStats.diskHits,
+    diskCacheHits: cacheStats.diskHits,
+    cacheMisses: cacheStats.misses,
+    diskCacheEntries: diskStats?.entries ?? 0,
+    diskCacheBytes: diskStats?.bytes ?? 0
   };
 }
 
 /**
- * Clears the tile cache 
+ * Clears the in-memory tile cache (the on-disk cache expires on its own)
  */
 export function clearTileCache(): void {
   const cacheSize = tileCache.size;
@@ -282,231 +921,177 @@ export function clearTileCache(): void {
  */
 export async function testElevationAPI(config: Config): Promise<void> {
   console.log(`Testing elevation API (${config.apis.elevation.provider})...`);
-  
+
   // Test coordinates (Mount Everest)
   const latitude = 27.9881;
   const longitude = 86.9250;
-  
+
   const result = await fetchElevation(latitude, longitude, config); // Keep water checking for testing
-  
+
   if (result.status === "success" && result.data.length > 0) {
     console.log("Elevation API test successful!");
     console.log(`Elevation at ${latitude}, ${longitude}: ${result.data[0].elevation}m`);
-    
-    if (config.apis.elevation.provider.toLowerCase() === "opentopodata") {
-      const stats = getRequestStats();
-      console.log(`OpenTopoData requests today: ${stats.dailyCount}/1000 (${stats.remaining} remaining)`);
+
+    const provider = resolveElevationProvider(config);
+    const stats = getRequestStats(provider.name);
+
+    if (provider.capabilities.dailyQuota !== undefined) {
+      console.log(`${provider.name} requests today: ${stats.dailyCount}/${provider.capabilities.dailyQuota} (${stats.remaining} remaining)`);
     }
-    
-    if (config.apis.elevation.provider.toLowerCase() === "mapbox") {
-      const stats = getRequestStats();
-      console.log(`Mapbox cached tiles: ${stats.cachedTiles}`);
+
+    if (provider.capabilities.kind === "tile") {
+      console.log(`${provider.name} cached tiles: ${stats.cachedTiles}`);
     }
   } else {
     console.error("Elevation API test failed:", result.error);
-    
+
     if (result.rateLimited) {
       console.error("The API is rate limiting requests");
     }
   }
 }
 
+/**
+ * Get the on-disk elevation cache, created on first use
+ */
+function getDiskCache(config: Config): DiskCache {
+  if (!diskCache) {
+    const { maxSizeMb, ttlDays } = config.system.elevationCache;
+    diskCache = new DiskCache({
+      directory: path.join(config.system.cacheDir, "elevation"),
+      maxBytes: maxSizeMb * 1024 * 1024,
+      ttlMs: ttlDays * 24 * 60 * 60 * 1000,
+    });
+  }
+  return diskCache;
+}
+
+/**
+ * Get the persisted daily request counters, created on first use
+ */
+function getQuotaStore(config: Config): QuotaStore {
+  if (!quotaStore) {
+    quotaStore = new QuotaStore(path.join(config.system.cacheDir, "quota.json"));
+  }
+  return quotaStore;
+}
 
 /**
- * Gets a unique key for a tile containing a specific coordinate
+ * Look up a decoded tile in memory, then on disk
  */
-function getTileKey(latitude: number, longitude: number): string {
-  const zoom = 14; // Use standard zoom level
-  const coords = getTileCoordinates(latitude, longitude, zoom);
-  return `${zoom}-${coords.x}-${coords.y}`;
+async function getCachedTile(cacheKey: string, config: Config): Promise<CachedTile | null> {
+  const memoryTile = tileCache.get(cacheKey);
+  if (memoryTile) {
+    // Move to the end of the map so eviction drops the least recently used tile
+    tileCache.delete(cacheKey);
+    tileCache.set(cacheKey, memoryTile);
+    cacheStats.memoryHits++;
+    return memoryTile;
+  }
+
+  const stored = await getDiskCache(config).getBytes(cacheKey);
+  if (!stored) {
+    cacheStats.misses++;
+    return null;
+  }
+
+  const tile: CachedTile = {
+    elevations: new Float32Array(stored.data.slice().buffer),
+    width: stored.meta.width,
+    height: stored.meta.height,
+    timestamp: Date.now()
+  };
+  setMemoryTile(cacheKey, tile);
+  cacheStats.diskHits++;
+  return tile;
 }
 
 /**
- * Cache tile data for a coordinate
+ * Cache a decoded tile in memory and on disk
  */
-function cacheTileData(tileKey: string, elevationData: ElevationData): void {
-  // This is a simplified implementation that just caches the elevation value
-  // In a real implementation, we would store the actual tile data
+async function cacheTile(cacheKey: string, tile: CachedTile, config: Config): Promise<void> {
+  setMemoryTile(cacheKey, tile);
+  await getDiskCache(config).setBytes(
+    cacheKey,
+    new Uint8Array(tile.elevations.buffer),
+    { width: tile.width, height: tile.height }
+  );
+}
+
+function setMemoryTile(cacheKey: string, tile: CachedTile): void {
+  // Manage cache size if needed
   if (tileCache.size >= MAX_CACHE_SIZE) {
-    // Remove oldest tile (first entry)
+    // Remove least recently used tile (first entry)
     const oldestKey = tileCache.keys().next().value;
     if (oldestKey) {
       tileCache.delete(oldestKey);
     }
   }
-  
-  // Just cache a placeholder for now
-  tileCache.set(tileKey, {
-    tileData: new Uint8Array(0),
-    width: 1,
-    height: 1,
-    timestamp: Date.now()
-  });
+  tileCache.set(cacheKey, tile);
 }
 
 /**
- * Fetch elevation data from OpenTopoData
+ * Look up a previously fetched point elevation on disk
  */
-async function fetchFromOpenTopoData(
+async function getCachedPoint(
+  provider: ElevationProvider,
   latitude: number,
   longitude: number,
-  config: ElevationConfig
-): Promise<ElevationResponse> {
-  // Check daily limit
-  if (dailyRequestCount >= MAX_DAILY_REQUESTS) {
-    console.error("Daily OpenTopoData request limit exceeded (1000 calls per day)");
-    return {
-      status: "error",
-      data: [],
-      error: "Daily request limit exceeded (1000 calls per day)",
-      rateLimited: true
-    };
-  }
-  
-  try {
-    // Apply rate limiting
-    const now = Date.now();
-    const timeSinceLastRequest = now - lastRequestTime;
-    
-    if (timeSinceLastRequest < 1000 && lastRequestTime > 0) {
-      const waitTime = 1000 - timeSinceLastRequest;
-      console.log(`Rate limit protection: Waiting ${waitTime}ms before making request`);
-      await delay(waitTime);
-    }
-    
-    // Update request tracking
-    lastRequestTime = Date.now();
-    dailyRequestCount++;
-    
-    const url = `${config.apis.elevation.baseUrl}aster30m?locations=${latitude},${longitude}`;
-    
-    // Make the request
-    const response = await fetch(url, {
-      headers: {
-        "Accept": "application/json"
-      },
-    });
-    
-    // Check for rate limiting
-    if (response.status === 429) {
-      const retryAfter = response.headers.get("Retry-After");
-      const waitTime = retryAfter ? parseInt(retryAfter, 10) * 1000 : 5000;
-      
-      console.warn(`API rate limit exceeded`);
-      console.warn(`Suggested wait: ${waitTime/1000} seconds`);
-      
-      return {
-        status: "error",
-        data: [],
-        error: `Rate limit exceeded`,
-        rateLimited: true
-      };
-    }
-    
-    if (!response.ok) {
-      throw new Error(`API returned ${response.status}: ${response.statusText}`);
-    }
-    
-    // Parse response
-    const data = await response.json();
-    return normalizeElevationResponse(data, "opentopodata");
-  } catch (error: unknown) {
-    return {
-      status: "error",
-      data: [],
-      error: error instanceof Error ? error.message : String(error)
-    };
+  config: Config,
+  area?: BoundingBox
+): Promise<number | undefined> {
+  if (provider.capabilities.skipCache) return undefined;
+
+  const elevation = await getDiskCache(config).getValue<number>(getPointKey(provider, config, area, latitude, longitude));
+  if (elevation === undefined) {
+    cacheStats.misses++;
+  } else {
+    cacheStats.diskHits++;
   }
+  return elevation;
+}
+
+/**
+ * Store point elevations on disk
+ */
+async function cachePoints(
+  provider: ElevationProvider,
+  points: ElevationData[],
+  config: Config,
+  area?: BoundingBox
+): Promise<void> {
+  if (provider.capabilities.skipCache) return;
+
+  await getDiskCache(config).setValues(
+    points.map((point): [string, unknown] => [
+      getPointKey(provider, config, area, point.latitude, point.longitude),
+      point.elevation
+    ])
+  );
+}
+
+/**
+ * Cache key of a tile, apart for each data source of the provider (e.g. raster-dem URL template)
+ */
+function getTileKey(provider: ElevationProvider, config: Config, zoom: number, x: number, y: number): string {
+  const scope = provider.getCacheScope ? `${provider.getCacheScope(config)}/` : "";
+  return `${provider.name}/${scope}${zoom}-${x}-${y}`;
 }
 
 /**
- * Fetch elevation data from Mapbox
+ * Disk cache key of a point, apart for each data source of the provider (e.g. OpenTopoData dataset)
  */
-async function fetchFromMapbox(
+function getPointKey(
+  provider: ElevationProvider,
+  config: Config,
+  area: BoundingBox | undefined,
   latitude: number,
-  longitude: number,
-  config: ElevationConfig
-): Promise<ElevationResponse> {
-  try {
-    // Skip rate limiting for Mapbox - it can handle the load
-    // Just update the request tracking
-    lastRequestTime = Date.now();
-    
-    const apiKey = config.apis.elevation.apiKey;
-    if (!apiKey) {
-      throw new Error("Mapbox API key is required");
-    }
-    
-    const zoom = 14; // Max zoom level for 512 tiles
-    const tileCoords = getTileCoordinates(latitude, longitude, zoom);
-    const url = `${config.apis.elevation.baseUrl}v4/mapbox.mapbox-terrain-dem-v1/${zoom}/${tileCoords.x}/${tileCoords.y}@2x.pngraw?access_token=${apiKey}`;
-    
-    // Make the request
-    const response = await fetch(url, {
-      headers: {
-        "Accept": "image/png"
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API returned ${response.status}: ${response.statusText}`);
-    }
-    
-    // Decode the PNG data
-    const imageData = await response.arrayBuffer();
-    const png = decode(new Uint8Array(imageData));
-    
-    if (!png || !png.image || png.image.length === 0) {
-      throw new Error("Invalid PNG data received from Mapbox");
-    }
-    
-    // Cache the tile data
-    const tileKey = `${zoom}-${tileCoords.x}-${tileCoords.y}`;
-    
-    // Manage cache size if needed
-    if (tileCache.size >= MAX_CACHE_SIZE) {
-      // Remove oldest tile (first entry)
-      const oldestKey = tileCache.keys().next().value;
-      if (oldestKey) {
-        console.log(`Removing oldest tile from cache: ${oldestKey}`);
-        tileCache.delete(oldestKey);
-      }
-    }
-    
-    // Add to cache
-    tileCache.set(tileKey, {
-      tileData: png.image,
-      width: png.width,
-      height: png.height,
-      timestamp: Date.now()
-    });
-    
-    // Extract elevation
-    const elevation = extractElevationFromTile(
-      png.image, 
-      png.width, 
-      png.height, 
-      latitude, 
-      longitude, 
-      tileCoords.x, 
-      tileCoords.y, 
-      zoom
-    );
-    
-    return {
-      status: "success",
-      data: [{
-        latitude,
-        longitude,
-        elevation: Math.round(elevation)
-      }],
-      fromCache: false
-    };
-  } catch (error: unknown) {
-    return {
-      status: "error",
-      data: [],
-      error: error instanceof Error ? error.message : String(error)
-    };
-  }
-}
\ No newline at end of file
+  longitude: number
+): string {
+  const scope = provider.getCacheScope ? `${provider.getCacheScope(config, area)}/` : "";
+  return `${provider.name}/${scope}${getCoordinateKey({ latitude, longitude })}`;
+}
+
+function getCoordinateKey(coordinate: Coordinate): string {
+  return `${coordinate.latitude.toFixed(6)},${coordinate.longitude.toFixed(6)}`;
+}
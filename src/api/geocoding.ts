@@ -1,4 +1,10 @@
 import { Config } from "../config/config.ts";
+import { path } from "../deps.ts";
+import { DiskCache } from "../utils/disk-cache.ts";
+import { BoundingBox } from "../utils/coordinates.ts";
+import { getGeocodingHttpPolicy, httpFetch } from "./http-client.ts";
+import { findNaturalFeature, getLocalizedName, NaturalFeature } from "./natural-features.ts";
+import { reverseGeocodeOffline } from "./offline-geocoding.ts";
 
 export interface LocationData {
   name: string;
@@ -9,49 +15,146 @@ export interface LocationData {
   latitude: number;
   longitude: number;
   formattedAddress?: string;
+  nearestPlace?: { // Set by offline lookups: closest town, and where the location lies from it
+    name: string;
+    distanceKm: number;
+    direction: string; // Compass point, e.g. "NE"
+  };
+  feature?: NaturalFeature; // Most prominent named peak, glacier... of the render area
 }
 
 export interface GeocodingResponse {
   status: string;
   data?: LocationData;
   error?: string;
+  notFound?: boolean; // Nominatim answered but has no place there; cached like a result
 }
 
+// Fields of a Nominatim search result used to rank it
+interface NominatimSearchResult {
+  category?: string; // jsonv2
+  class?: string; // json
+  type?: string;
+  importance?: number;
+}
+
+// Nominatim classes that describe terrain rather than settlements or addresses
+const NATURAL_FEATURE_CLASSES = ["natural", "waterway", "geological"];
+const NATURAL_FEATURE_TYPES = ["national_park", "nature_reserve", "protected_area", "island", "archipelago"];
+
+// Results below this Nominatim importance are more likely noise than a place request
+const MIN_PLACE_IMPORTANCE = 0.45;
+// Added to the importance of natural features, so a peak beats a village but not a city
+const NATURAL_FEATURE_BONUS = 0.1;
+
+const COORDINATE_DECIMALS = 4; // Reverse lookups closer than ~11m share a cache entry
+
+let geocodeCache: DiskCache | null = null;
+
 /**
- * Performs reverse geocoding for a given coordinate using Nominatim
+ * Performs reverse geocoding for a given coordinate. With the render's bounding box,
+ * the most prominent natural feature inside it is added as `feature`.
  */
 export async function reverseGeocode(
+  latitude: number,
+  longitude: number,
+  config: Config,
+  boundingBox?: BoundingBox
+): Promise<GeocodingResponse> {
+  const response = await reverseGeocodePlace(latitude, longitude, config);
+  if (response.status !== "success" || !response.data || !boundingBox) {
+    return response;
+  }
+  
+  const feature = await findNaturalFeature(boundingBox, config);
+  return feature ? { ...response, data: { ...response.data, feature } } : response;
+}
+
+/**
+ * Place at a coordinate from Nominatim, or the offline gazetteer depending on
+ * config.apis.geocoding.offline
+ */
+async function reverseGeocodePlace(
+  latitude: number,
+  longitude: number,
+  config: Config
+): Promise<GeocodingResponse> {
+  const offline = config.apis.geocoding.offline;
+  if (offline === "primary") {
+    return reverseGeocodeOffline(latitude, longitude, config);
+  }
+  
+  const response = await reverseGeocodeOnline(latitude, longitude, config);
+  if (response.status === "success" || offline !== "fallback") {
+    return response;
+  }
+  
+  const offlineResponse = await reverseGeocodeOffline(latitude, longitude, config);
+  if (offlineResponse.status === "success") {
+    console.log(`Nominatim had no answer (${response.error}), using offline geocoding`);
+    return offlineResponse;
+  }
+  return response;
+}
+
+/**
+ * Reverse geocoding through Nominatim
+ */
+async function reverseGeocodeOnline(
   latitude: number,
   longitude: number,
   config: Config
 ): Promise<GeocodingResponse> {
   try {
-    const { baseUrl, rateLimit } = config.apis.geocoding;
+    const lat = latitude.toFixed(COORDINATE_DECIMALS);
+    const lon = longitude.toFixed(COORDINATE_DECIMALS);
     
-    // Build the API URL for Nominatim
-    const url = `${baseUrl}/reverse?format=json&lat=${latitude}&lon=${longitude}`;
-    
-    // Add required headers for Nominatim
-    const headers = {
-      "Accept": "application/json",
-      "User-Agent": "BotBlueskyReliefs/1.0"
+    return await cachedLookup(`reverse/${lat},${lon}`, config, async () => {
+      const data = await nominatimRequest("reverse", { format: "json", lat, lon }, config);
+      return normalizeNominatimResponse(data, config.bluesky.languages);
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error in reverse geocoding: ${errorMessage}`);
+    return {
+      status: "error",
+      error: errorMessage,
     };
+  }
+}
+
+/**
+ * Finds a place by name using Nominatim search, the most important match first;
+ * natural features (peak, canyon, glacier, ...) win over towns of about the same importance
+ */
+export async function forwardGeocode(query: string, config: Config): Promise<GeocodingResponse> {
+  try {
+    const normalizedQuery = query.trim().replace(/\s+/g, " ").toLowerCase();
     
-    // Make the API request
-    const response = await fetch(url, { headers });
-    
-    if (!response.ok) {
-      throw new Error(`API returned ${response.status}: ${response.statusText}`);
-    }
-    
-    // Parse the response
-    const data = await response.json();
-    
-    // Normalize the response format
-    return normalizeNominatimResponse(data);
+    return await cachedLookup(`search/${normalizedQuery}`, config, async () => {
+      // Results come ranked by importance
+      const results = await nominatimRequest(
+        "search",
+        { format: "jsonv2", addressdetails: "1", limit: "10", q: normalizedQuery },
+        config
+      ) as NominatimSearchResult[];
+      const [best] = results
+        .filter((result) => getSearchScore(result) >= MIN_PLACE_IMPORTANCE)
+        .sort((a, b) => getSearchScore(b) - getSearchScore(a));
+      
+      if (!best) {
+        return {
+          status: "error",
+          error: `No place found for "${query}"`,
+          notFound: true,
+        };
+      }
+      
+      return normalizeNominatimResponse(best, config.bluesky.languages);
+    });
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`Error in reverse geocoding: ${errorMessage}`);
+    console.error(`Error in forward geocoding: ${errorMessage}`);
     return {
       status: "error",
       error: errorMessage,
@@ -59,15 +162,105 @@ export async function reverseGeocode(
   }
 }
 
+/**
+ * Call a Nominatim endpoint with the configured User-Agent and contact email.
+ * Names come back in the posting languages, with every name:xx variant in namedetails.
+ */
+async function nominatimRequest(
+  endpoint: string,
+  params: Record<string, string>,
+  config: Config
+): Promise<unknown> {
+  const { baseUrl, userAgent, email } = config.apis.geocoding;
+  
+  const query = new URLSearchParams({
+    ...params,
+    "accept-language": config.bluesky.languages.join(","),
+    namedetails: "1",
+  });
+  if (email) {
+    query.set("email", email);
+  }
+  
+  const headers = {
+    "Accept": "application/json",
+    "User-Agent": email ? `${userAgent} ${email}` : userAgent
+  };
+  
+  const response = await httpFetch(`${baseUrl}/${endpoint}?${query}`, { headers }, getGeocodingHttpPolicy(config));
+  
+  if (!response.ok) {
+    throw new Error(`API returned ${response.status}: ${response.statusText}`);
+  }
+  
+  return response.json();
+}
+
+/**
+ * Answer a lookup from the on-disk cache, or run it and keep its answer.
+ * Failed requests are not cached so they are retried next time.
+ * Entries are per set of languages, as names differ between them.
+ */
+async function cachedLookup(
+  lookupKey: string,
+  config: Config,
+  lookup: () => Promise<GeocodingResponse>
+): Promise<GeocodingResponse> {
+  const cache = getGeocodeCache(config);
+  const key = `${config.bluesky.languages.join(",")}/${lookupKey}`;
+  
+  const cached = await cache.getValue<GeocodingResponse>(key);
+  if (cached) {
+    return cached;
+  }
+  
+  const response = await lookup();
+  if (response.status === "success" || response.notFound) {
+    await cache.setValues([[key, response]]);
+  }
+  return response;
+}
+
+/**
+ * Get the on-disk geocoding cache, created on first use
+ */
+function getGeocodeCache(config: Config): DiskCache {
+  if (!geocodeCache) {
+    const { maxSizeMb, ttlDays } = config.system.geocodingCache;
+    geocodeCache = new DiskCache({
+      directory: path.join(config.system.cacheDir, "geocoding"),
+      maxBytes: maxSizeMb * 1024 * 1024,
+      ttlMs: ttlDays * 24 * 60 * 60 * 1000,
+    });
+  }
+  return geocodeCache;
+}
+
+/**
+ * Importance of a search result, with a small edge for natural features
+ */
+function getSearchScore(result: NominatimSearchResult): number {
+  return (result.importance ?? 0) + (isNaturalFeature(result) ? NATURAL_FEATURE_BONUS : 0);
+}
+
+/**
+ * Whether a Nominatim search result is a natural feature
+ */
+function isNaturalFeature(result: NominatimSearchResult): boolean {
+  const category = result.category ?? result.class ?? "";
+  return NATURAL_FEATURE_CLASSES.includes(category) || NATURAL_FEATURE_TYPES.includes(result.type ?? "");
+}
+
 /**
  * Normalizes the response from Nominatim
  */
-function normalizeNominatimResponse(data: any): GeocodingResponse {
+function normalizeNominatimResponse(data: any, languages: string[]): GeocodingResponse {
   try {
     if (!data || !data.address) {
       return {
         status: "error",
         error: "No results found",
+        notFound: true,
       };
     }
     
@@ -76,7 +269,7 @@ function normalizeNominatimResponse(data: any): GeocodingResponse {
     return {
       status: "success",
       data: {
-        name: data.name || data.display_name.split(",")[0],
+        name: getLocalizedName(data.namedetails, languages) || data.name || data.display_name.split(",")[0],
         country: address.country || "Unknown",
         countryCode: address.country_code || "unknown",
         region: address.state || address.county || undefined,
@@ -0,0 +1,201 @@
+import { Config } from "../config/config.ts";
+import { delay } from "../deps.ts";
+import { FixtureOptions, recordFixture, replayFixture } from "./http-fixtures.ts";
+
+/**
+ * Limits and retry behavior applied to a request
+ */
+export interface HttpPolicy {
+  rateLimit: number; // Requests per minute to the same host
+  timeout: number; // Milliseconds before a request is aborted
+  retryAttempts: number; // Retries after the first attempt
+  retryDelay: number; // Base delay in ms, doubled on every retry
+  fixtures?: FixtureOptions; // Record responses to disk or answer from recordings
+  onRetry?: () => Promise<void>; // Called before every retry, e.g. to count it against a quota
+}
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const NOMINATIM_HOST = "nominatim.openstreetmap.org";
+const NOMINATIM_MAX_RATE = 60; // Usage policy: at most one request per second
+const MAX_RETRY_AFTER = 60000; // Don't sit on a Retry-After longer than a minute
+
+/**
+ * Token bucket refilled continuously at rateLimit per minute,
+ * holding at most one second worth of requests
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+  private capacity: number;
+  private refillPerMs: number;
+
+  constructor(rateLimit: number) {
+    this.refillPerMs = rateLimit / 60000;
+    this.capacity = Math.max(1, Math.ceil(rateLimit / 60));
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait for a token; callers are served in arrival order
+   */
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      await delay(Math.ceil((1 - this.tokens) / this.refillPerMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * HTTP policy for elevation providers and Tilequery
+ */
+export function getElevationHttpPolicy(config: Config): HttpPolicy {
+  const { rateLimit, requestTimeout, retryAttempts, retryDelay } = config.apis.elevation;
+  return { rateLimit, timeout: requestTimeout, retryAttempts, retryDelay, fixtures: config.system.httpFixtures };
+}
+
+/**
+ * HTTP policy for geocoding requests; the public Nominatim server is never
+ * queried faster than its usage policy allows
+ */
+export function getGeocodingHttpPolicy(config: Config): HttpPolicy {
+  const { baseUrl, requestTimeout, retryAttempts, retryDelay } = config.apis.geocoding;
+  const rateLimit = new URL(baseUrl).host === NOMINATIM_HOST
+    ? Math.min(config.apis.geocoding.rateLimit, NOMINATIM_MAX_RATE)
+    : config.apis.geocoding.rateLimit;
+  return { rateLimit, timeout: requestTimeout, retryAttempts, retryDelay, fixtures: config.system.httpFixtures };
+}
+
+/**
+ * HTTP policy for Overpass natural feature queries
+ */
+export function getFeaturesHttpPolicy(config: Config): HttpPolicy {
+  const { rateLimit, requestTimeout, retryAttempts, retryDelay } = config.apis.features;
+  return { rateLimit, timeout: requestTimeout, retryAttempts, retryDelay, fixtures: config.system.httpFixtures };
+}
+
+/**
+ * fetch with a per-host rate limit, a timeout, and retries with exponential backoff
+ * on network errors, 429 and 5xx responses (honoring Retry-After).
+ * The last response is returned as-is once retries are exhausted, so callers still
+ * see a 429 and can report it. In replay mode nothing goes to the network.
+ */
+export async function httpFetch(url: string, init: RequestInit, policy: HttpPolicy): Promise<Response> {
+  const fixtures = policy.fixtures;
+  if (fixtures?.mode === "replay") {
+    return replayFixture(url, init, fixtures);
+  }
+
+  const response = await fetchWithRetries(url, init, policy);
+  return fixtures?.mode === "record" ? recordFixture(url, init, response, fixtures) : response;
+}
+
+async function fetchWithRetries(url: string, init: RequestInit, policy: HttpPolicy): Promise<Response> {
+  const bucket = getBucket(url, policy);
+
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0) {
+      await policy.onRetry?.();
+    }
+    await bucket.take();
+
+    const isLastAttempt = attempt >= policy.retryAttempts;
+    let waitTime = getBackoffDelay(policy.retryDelay, attempt);
+
+    try {
+      const response = await fetchWithTimeout(url, init, policy.timeout);
+
+      if (!RETRYABLE_STATUSES.includes(response.status) || isLastAttempt) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      if (retryAfter !== null) {
+        if (retryAfter > MAX_RETRY_AFTER) {
+          return response;
+        }
+        waitTime = Math.max(waitTime, retryAfter);
+      }
+
+      await response.body?.cancel();
+      console.warn(`${new URL(url).host} returned ${response.status}, retrying in ${waitTime}ms (${attempt + 1}/${policy.retryAttempts})`);
+    } catch (error: unknown) {
+      if (isLastAttempt) {
+        throw error;
+      }
+      console.warn(`Request to ${new URL(url).host} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${waitTime}ms (${attempt + 1}/${policy.retryAttempts})`);
+    }
+
+    await delay(waitTime);
+  }
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error: unknown) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function getBucket(url: string, policy: HttpPolicy): TokenBucket {
+  const host = new URL(url).host;
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    bucket = new TokenBucket(policy.rateLimit);
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Exponential backoff with jitter: between half and all of retryDelay * 2^attempt
+ */
+function getBackoffDelay(retryDelay: number, attempt: number): number {
+  const maxDelay = retryDelay * Math.pow(2, attempt);
+  return Math.round(maxDelay / 2 + Math.random() * maxDelay / 2);
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date; returns milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
@@ -0,0 +1,117 @@
+import { fs, path } from "../deps.ts";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  directory: string; // One JSON file per recorded request
+}
+
+interface RecordedResponse {
+  method: string;
+  url: string; // Credentials stripped
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: string; // Text bodies (JSON, XML, ...) stay readable
+  bodyBase64?: string; // Binary bodies such as PNG tiles
+}
+
+// Query parameters that carry credentials or contact details; they never reach the fixture files
+const SECRET_PARAMS = ["access_token", "api_key", "apikey", "key", "token", "email"];
+
+/**
+ * Answer a request from its recorded fixture
+ */
+export async function replayFixture(url: string, init: RequestInit, options: FixtureOptions): Promise<Response> {
+  const { method, safeUrl, filePath } = await locateFixture(url, init, options);
+
+  let recorded: RecordedResponse;
+  try {
+    recorded = JSON.parse(await Deno.readTextFile(filePath));
+  } catch (error: unknown) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`No HTTP fixture for ${method} ${safeUrl} (record one with HTTP_FIXTURES=record)`);
+    }
+    throw error;
+  }
+
+  const body = recorded.bodyBase64 !== undefined ? decodeBase64(recorded.bodyBase64) : recorded.body ?? null;
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+/**
+ * Save a live response as a fixture and hand back an unread copy of it
+ */
+export async function recordFixture(
+  url: string,
+  init: RequestInit,
+  response: Response,
+  options: FixtureOptions
+): Promise<Response> {
+  const { method, safeUrl, filePath } = await locateFixture(url, init, options);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const headers = Object.fromEntries(
+    Array.from(response.headers.entries()).filter(([name]) => name !== "set-cookie")
+  );
+  const contentType = response.headers.get("content-type") || "";
+  const isText = /json|text|xml/.test(contentType);
+
+  const recorded: RecordedResponse = {
+    method,
+    url: safeUrl,
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    ...(isText ? { body: new TextDecoder().decode(bytes) } : { bodyBase64: encodeBase64(bytes) }),
+  };
+
+  await fs.ensureDir(options.directory);
+  await Deno.writeTextFile(filePath, JSON.stringify(recorded, null, 2));
+  console.log(`Recorded HTTP fixture ${path.basename(filePath)} for ${method} ${safeUrl}`);
+
+  return new Response(bytes, { status: response.status, statusText: response.statusText, headers });
+}
+
+/**
+ * Fixture files are named after the host and a hash of the method and credential-free URL
+ */
+async function locateFixture(
+  url: string,
+  init: RequestInit,
+  options: FixtureOptions
+): Promise<{ method: string; safeUrl: string; filePath: string }> {
+  const method = (init.method || "GET").toUpperCase();
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+  const safeUrl = parsed.toString();
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${method} ${safeUrl}`));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 8), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  const fileName = `${parsed.host.replace(/[^a-zA-Z0-9.-]/g, "_")}-${hash}.json`;
+
+  return { method, safeUrl, filePath: path.join(options.directory, fileName) };
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
@@ -0,0 +1,251 @@
+import { Config } from "../config/config.ts";
+import { fs, path } from "../deps.ts";
+import { BoundingBox } from "../utils/coordinates.ts";
+import { DiskCache } from "../utils/disk-cache.ts";
+import { getFeaturesHttpPolicy, httpFetch } from "./http-client.ts";
+
+export type NaturalFeatureKind = "volcano" | "peak" | "glacier" | "lake" | "valley";
+
+export interface NaturalFeature {
+  name: string;
+  kind: NaturalFeatureKind;
+  elevation?: number; // meters, from the OSM ele tag
+  latitude: number;
+  longitude: number;
+}
+
+interface FeatureCandidate extends NaturalFeature {
+  notable: boolean; // Has a Wikipedia or Wikidata entry
+}
+
+// Overpass elements, requested with "out center tags"
+interface OverpassElement {
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+// Summits first, then the larger landforms
+const KIND_ORDER: NaturalFeatureKind[] = ["volcano", "peak", "glacier", "lake", "valley"];
+
+// Local extracts per directory and languages, loaded on first use
+const localExtracts = new Map<string, Promise<FeatureCandidate[]>>();
+
+let featureCache: DiskCache | null = null;
+
+/**
+ * Most prominent named peak, volcano, glacier, lake or valley inside a bounding box,
+ * from an Overpass API or a local OSM extract (config.apis.features.source).
+ * Features with a Wikipedia or Wikidata entry come first, then summits by elevation.
+ */
+export async function findNaturalFeature(boundingBox: BoundingBox, config: Config): Promise<NaturalFeature | null> {
+  const { source, localDataDir } = config.apis.features;
+  if (source === "off") {
+    return null;
+  }
+
+  try {
+    if (source === "local") {
+      const features = await getLocalExtract(localDataDir, config.bluesky.languages);
+      return pickMostProminent(features.filter((feature) => isInBoundingBox(feature, boundingBox)));
+    }
+
+    const bbox = [boundingBox.minLat, boundingBox.minLon, boundingBox.maxLat, boundingBox.maxLon]
+      .map((value) => value.toFixed(3))
+      .join(",");
+    const key = `${config.bluesky.languages.join(",")}/${bbox}`;
+    const cache = getFeatureCache(config);
+    const cached = await cache.getValue<{ feature: NaturalFeature | null }>(key);
+    if (cached) {
+      return cached.feature;
+    }
+
+    const feature = pickMostProminent(await queryOverpass(boundingBox, config));
+    await cache.setValues([[key, { feature }]]);
+    return feature;
+  } catch (error: unknown) {
+    console.warn(`Natural feature lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Named natural features of a bounding box from Overpass
+ */
+async function queryOverpass(boundingBox: BoundingBox, config: Config): Promise<FeatureCandidate[]> {
+  const bbox = `${boundingBox.minLat},${boundingBox.minLon},${boundingBox.maxLat},${boundingBox.maxLon}`;
+  const query = `[out:json][timeout:25];
+(
+  node["natural"~"^(peak|volcano)$"]["name"](${bbox});
+  nwr["natural"~"^(glacier|valley)$"]["name"](${bbox});
+  nwr["natural"="water"]["water"="lake"]["name"](${bbox});
+);
+out center tags;`;
+
+  // GET so the query is part of the URL, and of the fixture name when recording
+  const url = `${config.apis.features.baseUrl}?${new URLSearchParams({ data: query })}`;
+  const response = await httpFetch(url, { headers: { "Accept": "application/json" } }, getFeaturesHttpPolicy(config));
+
+  if (!response.ok) {
+    throw new Error(`Overpass returned ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json() as { elements?: OverpassElement[] };
+  return (data.elements ?? [])
+    .map((element) => toCandidate(element.tags ?? {}, config.bluesky.languages, element.lat ?? element.center?.lat, element.lon ?? element.center?.lon))
+    .filter((candidate): candidate is FeatureCandidate => candidate !== null);
+}
+
+/**
+ * Feature from OSM tags, or null when it isn't one of the kinds looked for
+ */
+function toCandidate(
+  tags: Record<string, unknown>,
+  languages: string[],
+  latitude?: number,
+  longitude?: number
+): FeatureCandidate | null {
+  const name = getLocalizedName(tags, languages) || (typeof tags.name === "string" ? tags.name : "");
+  const natural = tags.natural === "water" && tags.water === "lake" ? "lake" : tags.natural;
+  if (!name || latitude === undefined || longitude === undefined || !KIND_ORDER.includes(natural as NaturalFeatureKind)) {
+    return null;
+  }
+
+  // ele is meters, sometimes written "4122 m" or "4122.5"
+  const elevation = parseFloat(String(tags.ele ?? ""));
+
+  return {
+    name,
+    kind: natural as NaturalFeatureKind,
+    elevation: isFinite(elevation) ? Math.round(elevation) : undefined,
+    latitude,
+    longitude,
+    notable: Boolean(tags.wikipedia || tags.wikidata),
+  };
+}
+
+/**
+ * Name in each posting language, joined when they differ ("Mont Blanc / Monte Bianco").
+ * Languages without their own name:xx tag are left out.
+ */
+export function getLocalizedName(names: Record<string, unknown> | undefined, languages: string[]): string | undefined {
+  if (!names) return undefined;
+
+  const localized = languages
+    .map((language) => names[`name:${language.split("-")[0]}`])
+    .filter((name): name is string => typeof name === "string" && name.length > 0);
+
+  return localized.length > 0 ? [...new Set(localized)].join(" / ") : undefined;
+}
+
+function pickMostProminent(candidates: FeatureCandidate[]): NaturalFeature | null {
+  const [best] = [...candidates].sort((a, b) =>
+    Number(b.notable) - Number(a.notable) ||
+    getKindRank(a.kind) - getKindRank(b.kind) ||
+    (b.elevation ?? -Infinity) - (a.elevation ?? -Infinity)
+  );
+  if (!best) {
+    return null;
+  }
+
+  const { notable: _notable, ...feature } = best;
+  return feature;
+}
+
+function getKindRank(kind: NaturalFeatureKind): number {
+  // Volcanoes and peaks compete on elevation alone
+  return kind === "volcano" ? KIND_ORDER.indexOf("peak") : KIND_ORDER.indexOf(kind);
+}
+
+function isInBoundingBox(feature: NaturalFeature, boundingBox: BoundingBox): boolean {
+  return feature.latitude >= boundingBox.minLat && feature.latitude <= boundingBox.maxLat &&
+    feature.longitude >= boundingBox.minLon && feature.longitude <= boundingBox.maxLon;
+}
+
+function getLocalExtract(directory: string, languages: string[]): Promise<FeatureCandidate[]> {
+  const key = `${directory}|${languages.join(",")}`;
+  let features = localExtracts.get(key);
+  if (!features) {
+    features = loadLocalExtract(directory, languages);
+    localExtracts.set(key, features);
+  }
+  return features;
+}
+
+/**
+ * Read OSM features exported as GeoJSON (osmium export, Overpass turbo...), with
+ * OSM tags as feature properties. Areas are placed at the center of their outline.
+ */
+async function loadLocalExtract(directory: string, languages: string[]): Promise<FeatureCandidate[]> {
+  const features: FeatureCandidate[] = [];
+
+  if (!(await fs.exists(directory, { isDirectory: true }))) {
+    console.warn(`Natural features directory not found: ${directory}`);
+    return features;
+  }
+
+  for await (const entry of fs.walk(directory, { exts: [".geojson", ".json"], includeDirs: false })) {
+    try {
+      const geojson = JSON.parse(await Deno.readTextFile(entry.path)) as {
+        features?: Array<{ properties?: Record<string, unknown>; geometry?: { type: string; coordinates: unknown } }>;
+      };
+
+      for (const feature of geojson.features ?? []) {
+        const properties = feature.properties ?? {};
+        const tags = (properties.tags ?? properties) as Record<string, unknown>;
+        const center = feature.geometry ? getGeometryCenter(feature.geometry) : null;
+        const candidate = center ? toCandidate(tags, languages, center[1], center[0]) : null;
+        if (candidate) {
+          features.push(candidate);
+        }
+      }
+    } catch (error: unknown) {
+      console.warn(`Skipping natural features file ${path.basename(entry.path)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`Loaded ${features.length} natural features from ${directory}`);
+  return features;
+}
+
+/**
+ * [lon, lat] of a point, or the center of the bounding box of any other geometry
+ */
+function getGeometryCenter(geometry: { type: string; coordinates: unknown }): [number, number] | null {
+  if (geometry.type === "Point") {
+    return geometry.coordinates as [number, number];
+  }
+
+  const positions = [geometry.coordinates].flat(Infinity) as unknown[];
+  if (positions.length < 2) {
+    return null;
+  }
+
+  let [west, south, east, north] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (let i = 0; i + 1 < positions.length; i += 2) {
+    const lon = Number(positions[i]);
+    const lat = Number(positions[i + 1]);
+    west = Math.min(west, lon);
+    east = Math.max(east, lon);
+    south = Math.min(south, lat);
+    north = Math.max(north, lat);
+  }
+
+  return [(west + east) / 2, (south + north) / 2];
+}
+
+/**
+ * Get the on-disk feature cache, created on first use; sized like the geocoding cache
+ */
+function getFeatureCache(config: Config): DiskCache {
+  if (!featureCache) {
+    const { maxSizeMb, ttlDays } = config.system.geocodingCache;
+    featureCache = new DiskCache({
+      directory: path.join(config.system.cacheDir, "features"),
+      maxBytes: maxSizeMb * 1024 * 1024,
+      ttlMs: ttlDays * 24 * 60 * 60 * 1000,
+    });
+  }
+  return featureCache;
+}
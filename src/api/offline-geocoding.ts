@@ -0,0 +1,333 @@
+import { Config } from "../config/config.ts";
+import { fs, path } from "../deps.ts";
+import { Coordinate, getCompassDirection, getDistanceKm } from "../utils/coordinates.ts";
+import type { GeocodingResponse } from "./geocoding.ts";
+
+interface Place extends Coordinate {
+  name: string;
+  featureClass: string; // GeoNames class: P populated place, T mountain, hill, rock...
+  countryCode: string;
+  admin1Code: string;
+}
+
+interface Boundary {
+  level: "country" | "admin1";
+  name: string;
+  country?: string; // Country name, for admin-1 boundaries
+  countryCode?: string;
+  bbox: [number, number, number, number]; // minLon, minLat, maxLon, maxLat
+  polygons: number[][][][]; // GeoJSON MultiPolygon coordinates, [lon, lat]
+}
+
+interface GazetteerData {
+  places: Map<string, Place[]>; // Populated places by 1° cell
+  features: Map<string, Place[]>; // Places and terrain features by 1° cell
+  admin1Names: Map<string, string>; // "FR.84" -> "Auvergne-Rhône-Alpes"
+  countryNames: Map<string, string>; // "FR" -> "France"
+  boundaries: Boundary[];
+}
+
+const PLACE_CLASSES = ["P", "T"];
+const NAMED_RADIUS_KM = 2; // Closer than this, the location takes the feature's own name
+const MAX_CODES_DISTANCE_KM = 50; // Without boundaries, a place's country and region only carry this far
+const MAX_SEARCH_RINGS = 30; // 1° cells searched around the location, about 3,000 km
+const ADMIN1_FILE = "admin1codesascii.txt";
+const COUNTRY_FILE = "countryinfo.txt";
+
+// Gazetteer per data directory, loaded on first use
+const gazetteers = new Map<string, Promise<GazetteerData>>();
+
+/**
+ * Reverse geocoding from local GeoNames tables and boundary GeoJSON in
+ * config.apis.geocoding.offlineDataDir, in the same shape as reverseGeocode.
+ * Away from any named feature the name reads like "12 km NE of Chamonix".
+ */
+export async function reverseGeocodeOffline(
+  latitude: number,
+  longitude: number,
+  config: Config
+): Promise<GeocodingResponse> {
+  try {
+    const directory = config.apis.geocoding.offlineDataDir;
+    const data = await getGazetteer(directory);
+    if (data.places.size === 0 && data.boundaries.length === 0) {
+      throw new Error(`No offline geocoding data found in ${directory}`);
+    }
+
+    const location = { latitude, longitude };
+    const nearestPlace = findNearest(data.places, location);
+    const nearestFeature = findNearest(data.features, location);
+
+    // Country and region from boundaries, or from the closest place's codes without them
+    const country = findBoundary(data.boundaries, "country", location);
+    const admin1 = findBoundary(data.boundaries, "admin1", location);
+    const codesFrom = nearestPlace && nearestPlace.distanceKm < MAX_CODES_DISTANCE_KM ? nearestPlace.place : undefined;
+    const countryCode = country?.countryCode ?? admin1?.countryCode ?? codesFrom?.countryCode;
+    const countryName = country?.name ?? admin1?.country ??
+      (countryCode ? data.countryNames.get(countryCode) : undefined);
+    const region = admin1?.name ??
+      (codesFrom ? data.admin1Names.get(`${codesFrom.countryCode}.${codesFrom.admin1Code}`) : undefined);
+
+    if (!nearestPlace && !countryName) {
+      return { status: "error", error: "No place found near this location", notFound: true };
+    }
+
+    const nearest = nearestPlace ? {
+      name: nearestPlace.place.name,
+      distanceKm: Math.round(nearestPlace.distanceKm * 10) / 10,
+      direction: getCompassDirection(nearestPlace.place, location),
+    } : undefined;
+
+    let name = countryName || "Unknown";
+    if (nearestFeature && nearestFeature.distanceKm < NAMED_RADIUS_KM) {
+      name = nearestFeature.place.name;
+    } else if (nearest) {
+      name = `${Math.round(nearest.distanceKm)} km ${nearest.direction} of ${nearest.name}`;
+    }
+
+    return {
+      status: "success",
+      data: {
+        name,
+        country: countryName || "Unknown",
+        countryCode: countryCode?.toLowerCase() || "unknown",
+        region,
+        locality: nearestPlace && nearestPlace.distanceKm < NAMED_RADIUS_KM ? nearestPlace.place.name : undefined,
+        latitude,
+        longitude,
+        formattedAddress: [name, region, countryName].filter(Boolean).join(", "),
+        nearestPlace: nearest,
+      },
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error in offline reverse geocoding: ${errorMessage}`);
+    return {
+      status: "error",
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Closest place of a cell index, searching rings of cells outwards
+ */
+function findNearest(
+  index: Map<string, Place[]>,
+  location: Coordinate
+): { place: Place; distanceKm: number } | null {
+  const cellLat = Math.floor(location.latitude);
+  const cellLon = Math.floor(location.longitude);
+  // Cells get narrower towards the poles, so keep looking a few rings past the first hit
+  const extraRings = Math.ceil(1 / Math.max(Math.cos(location.latitude * Math.PI / 180), 0.1));
+
+  let best: { place: Place; distanceKm: number } | null = null;
+  let lastRing = MAX_SEARCH_RINGS;
+
+  for (let ring = 0; ring <= lastRing; ring++) {
+    for (let dLat = -ring; dLat <= ring; dLat++) {
+      for (let dLon = -ring; dLon <= ring; dLon++) {
+        if (Math.max(Math.abs(dLat), Math.abs(dLon)) !== ring) continue;
+
+        const lon = ((cellLon + dLon + 180) % 360 + 360) % 360 - 180;
+        for (const place of index.get(`${cellLat + dLat},${lon}`) ?? []) {
+          const distanceKm = getDistanceKm(location, place);
+          if (!best || distanceKm < best.distanceKm) {
+            best = { place, distanceKm };
+          }
+        }
+      }
+    }
+
+    if (best && lastRing === MAX_SEARCH_RINGS) {
+      lastRing = Math.min(MAX_SEARCH_RINGS, ring + extraRings);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Boundary of the given level containing a location
+ */
+function findBoundary(boundaries: Boundary[], level: Boundary["level"], location: Coordinate): Boundary | undefined {
+  const { latitude, longitude } = location;
+
+  return boundaries.find((boundary) =>
+    boundary.level === level &&
+    longitude >= boundary.bbox[0] && latitude >= boundary.bbox[1] &&
+    longitude <= boundary.bbox[2] && latitude <= boundary.bbox[3] &&
+    boundary.polygons.some((polygon) => isInPolygon(polygon, longitude, latitude))
+  );
+}
+
+/**
+ * Inside the outer ring and outside every hole
+ */
+function isInPolygon(polygon: number[][][], x: number, y: number): boolean {
+  return polygon.length > 0 && isInRing(polygon[0], x, y) &&
+    polygon.slice(1).every((hole) => !isInRing(hole, x, y));
+}
+
+function isInRing(ring: number[][], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function getGazetteer(directory: string): Promise<GazetteerData> {
+  let data = gazetteers.get(directory);
+  if (!data) {
+    data = loadGazetteer(directory);
+    gazetteers.set(directory, data);
+  }
+  return data;
+}
+
+/**
+ * Load every file of the data directory:
+ * - GeoNames place tables (.txt/.tsv, e.g. cities15000.txt or peaks extracted from allCountries.txt)
+ * - admin1CodesASCII.txt and countryInfo.txt for region and country names
+ * - country or admin-1 boundaries as GeoJSON (Natural Earth property names)
+ */
+async function loadGazetteer(directory: string): Promise<GazetteerData> {
+  const data: GazetteerData = {
+    places: new Map(),
+    features: new Map(),
+    admin1Names: new Map(),
+    countryNames: new Map(),
+    boundaries: [],
+  };
+
+  if (!(await fs.exists(directory, { isDirectory: true }))) {
+    console.warn(`Offline geocoding directory not found: ${directory}`);
+    return data;
+  }
+
+  let placeCount = 0;
+  for await (const entry of fs.walk(directory, { exts: [".txt", ".tsv", ".geojson", ".json"], includeDirs: false })) {
+    try {
+      const fileName = path.basename(entry.path).toLowerCase();
+      const text = await Deno.readTextFile(entry.path);
+
+      if (fileName === ADMIN1_FILE) {
+        readCodeTable(text, 0, 1, data.admin1Names);
+      } else if (fileName === COUNTRY_FILE) {
+        readCodeTable(text, 0, 4, data.countryNames);
+      } else if (fileName.endsWith("json")) {
+        data.boundaries.push(...readBoundaries(JSON.parse(text)));
+      } else {
+        placeCount += readPlaces(text, data);
+      }
+    } catch (error: unknown) {
+      console.warn(`Skipping geocoding data file ${entry.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`Loaded ${placeCount} places and ${data.boundaries.length} boundaries for offline geocoding`);
+  return data;
+}
+
+/**
+ * Index the rows of a GeoNames table (tab separated, no header)
+ */
+function readPlaces(text: string, data: GazetteerData): number {
+  let count = 0;
+
+  for (const line of text.split("\n")) {
+    const columns = line.split("\t");
+    if (columns.length < 11 || !PLACE_CLASSES.includes(columns[6])) continue;
+
+    const place: Place = {
+      name: columns[1],
+      latitude: Number(columns[4]),
+      longitude: Number(columns[5]),
+      featureClass: columns[6],
+      countryCode: columns[8],
+      admin1Code: columns[10],
+    };
+    if (!isFinite(place.latitude) || !isFinite(place.longitude)) continue;
+
+    const cell = `${Math.floor(place.latitude)},${Math.floor(place.longitude)}`;
+    addToCell(data.features, cell, place);
+    if (place.featureClass === "P") {
+      addToCell(data.places, cell, place);
+    }
+    count++;
+  }
+
+  return count;
+}
+
+function addToCell(index: Map<string, Place[]>, cell: string, place: Place): void {
+  const places = index.get(cell);
+  if (places) {
+    places.push(place);
+  } else {
+    index.set(cell, [place]);
+  }
+}
+
+/**
+ * Read a code -> name table, skipping "#" comment lines
+ */
+function readCodeTable(text: string, codeColumn: number, nameColumn: number, target: Map<string, string>): void {
+  for (const line of text.split("\n")) {
+    if (line.startsWith("#")) continue;
+    const columns = line.split("\t");
+    if (columns[codeColumn] && columns[nameColumn]) {
+      target.set(columns[codeColumn], columns[nameColumn]);
+    }
+  }
+}
+
+/**
+ * Boundaries of a GeoJSON FeatureCollection. Features with an `admin` property
+ * are admin-1 regions (Natural Earth admin_1_states_provinces), the others countries.
+ */
+function readBoundaries(geojson: { features?: Array<{ properties?: Record<string, unknown>; geometry?: { type: string; coordinates: unknown } }> }): Boundary[] {
+  const boundaries: Boundary[] = [];
+
+  for (const feature of geojson.features ?? []) {
+    const properties = feature.properties ?? {};
+    const geometry = feature.geometry;
+    if (!geometry || (geometry.type !== "Polygon" && geometry.type !== "MultiPolygon")) continue;
+
+    const polygons = (geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates) as number[][][][];
+    const isAdmin1 = typeof properties.admin === "string";
+    const name = String(isAdmin1 ? properties.name : properties.ADMIN ?? properties.NAME ?? properties.name ?? "");
+    if (!name) continue;
+
+    const countryCode = String(properties.iso_a2 ?? properties.ISO_A2 ?? "");
+
+    boundaries.push({
+      level: isAdmin1 ? "admin1" : "country",
+      name,
+      country: isAdmin1 ? String(properties.admin) : undefined,
+      countryCode: /^[A-Z]{2}$/.test(countryCode) ? countryCode : undefined,
+      bbox: getPolygonsBoundingBox(polygons),
+      polygons,
+    });
+  }
+
+  return boundaries;
+}
+
+function getPolygonsBoundingBox(polygons: number[][][][]): [number, number, number, number] {
+  const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygons) {
+    for (const [lon, lat] of polygon[0] ?? []) {
+      bbox[0] = Math.min(bbox[0], lon);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lon);
+      bbox[3] = Math.max(bbox[3], lat);
+    }
+  }
+  return bbox;
+}
@@ -0,0 +1,20 @@
+// Importing a provider module registers it with the elevation layer.
+// A new DEM source only needs its own module and an import here.
+import "./opentopodata.ts";
+import "./mapbox.ts";
+import "./local.ts";
+import "./raster-dem.ts";
+import "./synthetic.ts";
+
+export { getElevationProvider, listElevationProviders, registerElevationProvider } from "./registry.ts";
+export type { TileEncoding } from "./tile-decoders.ts";
+export { SYNTHETIC_PRESETS } from "./synthetic.ts";
+export type { SyntheticPreset } from "./synthetic.ts";
+export type {
+  DecodedTile,
+  ElevationData,
+  ElevationProvider,
+  ElevationResponse,
+  ProviderCapabilities,
+  TileResponse,
+} from "./types.ts";
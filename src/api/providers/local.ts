@@ -0,0 +1,420 @@
+import { Config } from "../../config/config.ts";
+import { fs, geotiffFromArrayBuffer, geotiffFromFile, path } from "../../deps.ts";
+import { Coordinate } from "../../utils/coordinates.ts";
+import { registerElevationProvider } from "./registry.ts";
+import { ElevationData, ElevationProvider, ElevationResponse } from "./types.ts";
+
+/**
+ * Offline provider reading DEM files from config.apis.elevation.localDemDir:
+ * GeoTIFF (.tif/.tiff, geographic coordinates), SRTM .hgt and ESRI ASCII grids (.asc)
+ */
+export const localProvider: ElevationProvider = {
+  name: "local",
+  capabilities: {
+    kind: "point",
+    maxBatchSize: 10000,
+    minRequestInterval: 0,
+    supportsWater: false,
+    skipCache: true,
+  },
+  fetchPoints: fetchFromLocalFiles,
+};
+
+registerElevationProvider(localProvider);
+
+type DemFormat = "geotiff" | "hgt" | "ascii";
+
+interface DemFileInfo {
+  filePath: string;
+  format: DemFormat;
+  // Outer extent of the raster in degrees
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  cellSize: number;
+}
+
+// Placement of a raster, readable from a file header without its values
+interface DemGeometry {
+  width: number;
+  height: number;
+  // Center of the top-left cell and spacing between cell centers, in degrees
+  originLon: number;
+  originLat: number;
+  stepLon: number;
+  stepLat: number;
+  noData?: number;
+}
+
+interface DemRaster extends DemGeometry {
+  data: ArrayLike<number>;
+}
+
+type GeoTiffImage = Awaited<ReturnType<Awaited<ReturnType<typeof geotiffFromArrayBuffer>>["getImage"]>>;
+
+const ASCII_HEADER_BYTES = 4096; // The header is 5 or 6 short lines
+const DEM_EXTENSIONS = [".tif", ".tiff", ".hgt", ".asc"];
+const MAX_LOADED_RASTERS = 8;
+
+// File index per DEM directory, built on first use
+const demIndexes = new Map<string, Promise<DemFileInfo[]>>();
+const loadedRasters = new Map<string, Promise<DemRaster>>();
+
+/**
+ * Sample elevations for a list of locations from the local DEM files
+ */
+async function fetchFromLocalFiles(
+  locations: Coordinate[],
+  config: Config
+): Promise<ElevationResponse> {
+  try {
+    const index = await getDemIndex(config.apis.elevation.localDemDir);
+    if (index.length === 0) {
+      throw new Error(`No DEM files found in ${config.apis.elevation.localDemDir}`);
+    }
+
+    const data: ElevationData[] = [];
+    let uncovered = 0;
+
+    for (const location of locations) {
+      const elevation = await sampleLocation(index, location);
+      if (elevation === null) {
+        uncovered++;
+        continue;
+      }
+      data.push({ ...location, elevation: Math.round(elevation) });
+    }
+
+    if (uncovered > 0) {
+      console.warn(`${uncovered}/${locations.length} points are not covered by local DEM files`);
+    }
+
+    if (data.length === 0) {
+      return { status: "error", data: [], error: "Location is outside local DEM coverage" };
+    }
+
+    return { status: "success", data };
+  } catch (error: unknown) {
+    return {
+      status: "error",
+      data: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Sample the finest DEM file covering a location, or null if none has data there
+ */
+async function sampleLocation(index: DemFileInfo[], location: Coordinate): Promise<number | null> {
+  const { latitude, longitude } = location;
+
+  for (const file of index) {
+    if (
+      latitude < file.south || latitude > file.north ||
+      longitude < file.west || longitude > file.east
+    ) {
+      continue;
+    }
+
+    const raster = await loadRaster(file);
+    const elevation = sampleBilinear(raster, latitude, longitude);
+    if (elevation !== null) {
+      return elevation;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Bilinear interpolation between the four cells around a location, ignoring NoData cells
+ */
+function sampleBilinear(raster: DemRaster, latitude: number, longitude: number): number | null {
+  const fx = Math.min(Math.max((longitude - raster.originLon) / raster.stepLon, 0), raster.width - 1);
+  const fy = Math.min(Math.max((raster.originLat - latitude) / raster.stepLat, 0), raster.height - 1);
+
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, raster.width - 1);
+  const y1 = Math.min(y0 + 1, raster.height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const samples: Array<[number, number, number]> = [
+    [x0, y0, (1 - tx) * (1 - ty)],
+    [x1, y0, tx * (1 - ty)],
+    [x0, y1, (1 - tx) * ty],
+    [x1, y1, tx * ty],
+  ];
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const [x, y, weight] of samples) {
+    const value = raster.data[y * raster.width + x];
+    if (value === raster.noData || !isFinite(value) || weight === 0) {
+      continue;
+    }
+    weightedSum += value * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
+
+/**
+ * Index the DEM files of a directory by bounding box, finest resolution first
+ */
+function getDemIndex(directory: string): Promise<DemFileInfo[]> {
+  let index = demIndexes.get(directory);
+  if (!index) {
+    index = buildDemIndex(directory);
+    demIndexes.set(directory, index);
+  }
+  return index;
+}
+
+async function buildDemIndex(directory: string): Promise<DemFileInfo[]> {
+  const files: DemFileInfo[] = [];
+
+  if (!(await fs.exists(directory, { isDirectory: true }))) {
+    console.warn(`Local DEM directory not found: ${directory}`);
+    return files;
+  }
+
+  for await (const entry of fs.walk(directory, { exts: DEM_EXTENSIONS, includeDirs: false })) {
+    try {
+      files.push(await readDemFileInfo(entry.path));
+    } catch (error: unknown) {
+      console.warn(`Skipping DEM file ${entry.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  files.sort((a, b) => a.cellSize - b.cellSize);
+  console.log(`Indexed ${files.length} local DEM files in ${directory}`);
+  return files;
+}
+
+/**
+ * Read the extent and resolution of a DEM file
+ */
+async function readDemFileInfo(filePath: string): Promise<DemFileInfo> {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === ".hgt") {
+    const { size } = await Deno.stat(filePath);
+    const { south, west } = parseHgtFileName(filePath);
+    const samples = Math.round(Math.sqrt(size / 2));
+    return { filePath, format: "hgt", west, south, east: west + 1, north: south + 1, cellSize: 1 / (samples - 1) };
+  }
+
+  // ASCII grids and GeoTIFFs carry their extent in their header, values are only read when sampled
+  const format: DemFormat = extension === ".asc" ? "ascii" : "geotiff";
+  const geometry = format === "ascii" ? await readAsciiGridGeometry(filePath) : await readGeoTiffGeometry(filePath);
+
+  return {
+    filePath,
+    format,
+    ...getRasterExtent(geometry),
+    cellSize: geometry.stepLat,
+  };
+}
+
+function getRasterExtent(raster: DemGeometry): { west: number; south: number; east: number; north: number } {
+  return {
+    west: raster.originLon - raster.stepLon / 2,
+    north: raster.originLat + raster.stepLat / 2,
+    east: raster.originLon + raster.stepLon * (raster.width - 0.5),
+    south: raster.originLat - raster.stepLat * (raster.height - 0.5),
+  };
+}
+
+/**
+ * Load a DEM file into memory, keeping only the most recently used rasters
+ */
+function loadRaster(file: DemFileInfo): Promise<DemRaster> {
+  let raster = loadedRasters.get(file.filePath);
+
+  if (!raster) {
+    switch (file.format) {
+      case "hgt":
+        raster = loadHgt(file);
+        break;
+      case "ascii":
+        raster = loadAsciiGrid(file.filePath);
+        break;
+      default:
+        raster = loadGeoTiff(file.filePath);
+    }
+  }
+
+  rememberRaster(file.filePath, raster);
+  return raster;
+}
+
+function rememberRaster(filePath: string, raster: Promise<DemRaster>): void {
+  loadedRasters.delete(filePath);
+
+  if (loadedRasters.size >= MAX_LOADED_RASTERS) {
+    const oldestKey = loadedRasters.keys().next().value;
+    if (oldestKey) {
+      loadedRasters.delete(oldestKey);
+    }
+  }
+
+  loadedRasters.set(filePath, raster);
+}
+
+/**
+ * SRTM .hgt: square grid of big-endian 16-bit integers, named after its south-west corner
+ */
+async function loadHgt(file: DemFileInfo): Promise<DemRaster> {
+  const bytes = await Deno.readFile(file.filePath);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = Math.round(Math.sqrt(bytes.byteLength / 2));
+  const data = new Int16Array(samples * samples);
+
+  for (let i = 0; i < data.length; i++) {
+    data[i] = view.getInt16(i * 2, false);
+  }
+
+  // Samples sit on the grid lines, the first row is the north edge
+  return {
+    data,
+    width: samples,
+    height: samples,
+    originLon: file.west,
+    originLat: file.north,
+    stepLon: 1 / (samples - 1),
+    stepLat: 1 / (samples - 1),
+    noData: -32768,
+  };
+}
+
+function parseHgtFileName(filePath: string): { south: number; west: number } {
+  const match = path.basename(filePath).match(/^([NS])(\d{1,2})([EW])(\d{1,3})/i);
+  if (!match) {
+    throw new Error("HGT file name must look like N45E006.hgt");
+  }
+
+  const south = parseInt(match[2], 10) * (match[1].toUpperCase() === "S" ? -1 : 1);
+  const west = parseInt(match[4], 10) * (match[3].toUpperCase() === "W" ? -1 : 1);
+  return { south, west };
+}
+
+/**
+ * ESRI ASCII grid: a short key/value header followed by rows of values, north first
+ */
+async function loadAsciiGrid(filePath: string): Promise<DemRaster> {
+  const tokens = (await Deno.readTextFile(filePath)).split(/\s+/).filter((token) => token.length > 0);
+  const { geometry, position } = parseAsciiGridHeader(tokens);
+
+  const data = new Float32Array(geometry.width * geometry.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = parseFloat(tokens[position + i]);
+  }
+
+  return { ...geometry, data };
+}
+
+/**
+ * Placement of an ASCII grid from the start of the file only
+ */
+async function readAsciiGridGeometry(filePath: string): Promise<DemGeometry> {
+  const file = await Deno.open(filePath, { read: true });
+  try {
+    const buffer = new Uint8Array(ASCII_HEADER_BYTES);
+    const bytesRead = await file.read(buffer) ?? 0;
+    const text = new TextDecoder().decode(buffer.subarray(0, bytesRead));
+    return parseAsciiGridHeader(text.split(/\s+/).filter((token) => token.length > 0)).geometry;
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Read the header keys, returning the placement and the position of the first value
+ */
+function parseAsciiGridHeader(tokens: string[]): { geometry: DemGeometry; position: number } {
+  const header: Record<string, number> = {};
+
+  let position = 0;
+  while (position < tokens.length - 1 && /^[a-z_]+$/i.test(tokens[position])) {
+    header[tokens[position].toLowerCase()] = parseFloat(tokens[position + 1]);
+    position += 2;
+  }
+
+  const { ncols, nrows, cellsize } = header;
+  if (!ncols || !nrows || !cellsize) {
+    throw new Error("Invalid ASCII grid header");
+  }
+
+  // Corner registration describes the lower-left edge, center registration the lower-left cell
+  const westCenter = header.xllcenter ?? header.xllcorner + cellsize / 2;
+  const southCenter = header.yllcenter ?? header.yllcorner + cellsize / 2;
+  if (!isFinite(westCenter) || !isFinite(southCenter)) {
+    throw new Error("ASCII grid header has no xllcorner/yllcorner or xllcenter/yllcenter");
+  }
+
+  return {
+    geometry: {
+      width: ncols,
+      height: nrows,
+      originLon: westCenter,
+      originLat: southCenter + cellsize * (nrows - 1),
+      stepLon: cellsize,
+      stepLat: cellsize,
+      noData: header.nodata_value,
+    },
+    position,
+  };
+}
+
+/**
+ * GeoTIFF in geographic coordinates (e.g. SRTM or Copernicus DEM tiles), first band only
+ */
+async function loadGeoTiff(filePath: string): Promise<DemRaster> {
+  const bytes = await Deno.readFile(filePath);
+  const tiff = await geotiffFromArrayBuffer(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+  const image = await tiff.getImage();
+
+  const rasters = await image.readRasters({ samples: [0] });
+  const band = (rasters as unknown as ArrayLike<number>[])[0];
+
+  return { ...getGeoTiffGeometry(image), data: band };
+}
+
+/**
+ * Placement of a GeoTIFF, reading its header and first image directory only
+ */
+async function readGeoTiffGeometry(filePath: string): Promise<DemGeometry> {
+  const tiff = await geotiffFromFile(filePath);
+  try {
+    return getGeoTiffGeometry(await tiff.getImage());
+  } finally {
+    await tiff.close();
+  }
+}
+
+function getGeoTiffGeometry(image: GeoTiffImage): DemGeometry {
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution();
+
+  // PixelIsPoint rasters give the center of the first cell, PixelIsArea rasters its corner
+  const pixelIsPoint = image.getGeoKeys()?.GTRasterTypeGeoKey === 2;
+  const stepLon = Math.abs(resX);
+  const stepLat = Math.abs(resY);
+  const noData = image.getGDALNoData();
+
+  return {
+    width: image.getWidth(),
+    height: image.getHeight(),
+    originLon: pixelIsPoint ? originX : originX + stepLon / 2,
+    originLat: pixelIsPoint ? originY : originY - stepLat / 2,
+    stepLon,
+    stepLat,
+    noData: noData ?? undefined,
+  };
+}
@@ -0,0 +1,107 @@
+import { Config } from "../../config/config.ts";
+import { getElevationHttpPolicy, httpFetch } from "../http-client.ts";
+import { registerElevationProvider } from "./registry.ts";
+import { decodeElevationPng } from "./tile-decoders.ts";
+import { ElevationProvider, TileResponse } from "./types.ts";
+
+/**
+ * Mapbox terrain-rgb tiles, with water detection through the Tilequery API
+ */
+export const mapboxProvider: ElevationProvider = {
+  name: "mapbox",
+  capabilities: {
+    kind: "tile",
+    maxBatchSize: 1,
+    minRequestInterval: 0, // Mapbox can handle the load
+    maxZoom: 14, // Max zoom level for 512 tiles
+    tileSize: 512,
+    supportsWater: true,
+  },
+  defaultBaseUrl: "https://api.mapbox.com/",
+  fetchTile: fetchMapboxTile,
+  checkWater: checkCoordinateIsWaterWithTilequery,
+};
+
+registerElevationProvider(mapboxProvider);
+
+/**
+ * Fetch and decode a terrain-rgb tile from Mapbox
+ */
+async function fetchMapboxTile(
+  zoom: number,
+  x: number,
+  y: number,
+  config: Config
+): Promise<TileResponse> {
+  try {
+    const apiKey = config.apis.elevation.apiKey;
+    if (!apiKey) {
+      throw new Error("Mapbox API key is required");
+    }
+    
+    const url = `${config.apis.elevation.baseUrl}v4/mapbox.mapbox-terrain-dem-v1/${zoom}/${x}/${y}@2x.pngraw?access_token=${apiKey}`;
+    
+    // Make the request
+    const response = await httpFetch(url, {
+      headers: {
+        "Accept": "image/png"
+      }
+    }, getElevationHttpPolicy(config));
+    
+    if (response.status === 429) {
+      await response.body?.cancel();
+      return { status: "error", error: "Rate limit exceeded", rateLimited: true };
+    }
+    
+    if (!response.ok) {
+      throw new Error(`API returned ${response.status}: ${response.statusText}`);
+    }
+    
+    // Decode the PNG data
+    const imageData = await response.arrayBuffer();
+    return {
+      status: "success",
+      tile: decodeElevationPng(new Uint8Array(imageData), "mapbox")
+    };
+  } catch (error: unknown) {
+    return {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Check if coordinate is over water using Mapbox Tilequery API
+ */
+async function checkCoordinateIsWaterWithTilequery(
+  latitude: number,
+  longitude: number,
+  config: Config
+): Promise<boolean | null> {
+  const { apiKey } = config.apis.elevation;
+  
+  if (!apiKey) {
+    throw new Error("Mapbox API key is required");
+  }
+
+  const url = `https://api.mapbox.com/v4/mapbox.mapbox-streets-v8/tilequery/${longitude},${latitude}.json?radius=10&layers=water&access_token=${apiKey}`;
+  
+  const response = await httpFetch(url, {
+    headers: {
+      "Accept": "application/json",
+    }
+  }, getElevationHttpPolicy(config));
+  
+  if (!response.ok) {
+    await response.body?.cancel();
+    if (response.status === 429) {
+      throw new Error("Rate limit exceeded for Tilequery API");
+    }
+    throw new Error(`Tilequery API error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+
+  return data.features && data.features.length > 0;
+}
@@ -0,0 +1,149 @@
+import { Config } from "../../config/config.ts";
+import { getElevationHttpPolicy, httpFetch, HttpPolicy } from "../http-client.ts";
+import { BoundingBox, Coordinate } from "../../utils/coordinates.ts";
+import { isValidElevation } from "../../utils/elevation-grid.ts";
+import { registerElevationProvider } from "./registry.ts";
+import { ElevationData, ElevationProvider, ElevationResponse } from "./types.ts";
+
+const PUBLIC_API_HOST = "api.opentopodata.org";
+const PUBLIC_API_MAX_RATE = 60; // Usage policy: at most one call per second
+
+/**
+ * OpenTopoData public API: point lookups, 100 locations per call and 1000 calls per day.
+ * Calls are spaced by the HTTP client from apis.elevation.rateLimit.
+ */
+export const openTopoDataProvider: ElevationProvider = {
+  name: "opentopodata",
+  capabilities: {
+    kind: "point",
+    maxBatchSize: 100,
+    minRequestInterval: 0, // The HTTP client applies the configured rate limit
+    dailyQuota: 1000,
+    supportsWater: false,
+  },
+  defaultBaseUrl: "https://api.opentopodata.org/v1/",
+  fetchPoints: fetchFromOpenTopoData,
+  getCacheScope: selectDataset,
+};
+
+registerElevationProvider(openTopoDataProvider);
+
+/**
+ * Fetch elevation data from OpenTopoData (one call for up to 100 locations)
+ */
+async function fetchFromOpenTopoData(
+  locations: Coordinate[],
+  config: Config,
+  area?: BoundingBox,
+  onRetry?: () => Promise<void>
+): Promise<ElevationResponse> {
+  try {
+    const dataset = selectDataset(config, area);
+    const locationsParam = locations
+      .map((location) => `${location.latitude},${location.longitude}`)
+      .join("|");
+    const url = `${config.apis.elevation.baseUrl}${dataset}?locations=${locationsParam}`;
+    
+    // Make the request
+    const response = await httpFetch(url, {
+      headers: {
+        "Accept": "application/json"
+      },
+    }, { ...getHttpPolicy(config), onRetry });
+    
+    // Still rate limited after the client's retries
+    if (response.status === 429) {
+      await response.body?.cancel();
+      console.warn(`API rate limit exceeded`);
+      
+      return {
+        status: "error",
+        data: [],
+        error: `Rate limit exceeded`,
+        rateLimited: true
+      };
+    }
+    
+    if (!response.ok) {
+      throw new Error(`API returned ${response.status}: ${response.statusText}`);
+    }
+    
+    // Parse response
+    const data = await response.json();
+    return normalizeOpenTopoDataResponse(data, locations);
+  } catch (error: unknown) {
+    return {
+      status: "error",
+      data: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Elevation HTTP policy, never faster than the public API's usage policy allows
+ */
+function getHttpPolicy(config: Config): HttpPolicy {
+  const policy = getElevationHttpPolicy(config);
+  if (new URL(config.apis.elevation.baseUrl).host !== PUBLIC_API_HOST) {
+    return policy;
+  }
+  return { ...policy, rateLimit: Math.min(policy.rateLimit, PUBLIC_API_MAX_RATE) };
+}
+
+/**
+ * Pick the dataset for a request: the first rule whose area contains the whole render,
+ * otherwise the configured default
+ */
+export function selectDataset(config: Config, area?: BoundingBox): string {
+  const { dataset, datasetRules } = config.apis.elevation;
+  if (!area) {
+    return dataset;
+  }
+
+  const rule = datasetRules.find((rule) =>
+    area.minLat >= rule.area.minLat && area.maxLat <= rule.area.maxLat &&
+    area.minLon >= rule.area.minLon && area.maxLon <= rule.area.maxLon
+  );
+  return rule?.dataset ?? dataset;
+}
+
+/**
+ * Normalizes the response from OpenTopoData
+ */
+function normalizeOpenTopoDataResponse(
+  data: unknown,
+  requestedLocations: Coordinate[]
+): ElevationResponse {
+  try {
+    const topoData = data as { results?: Array<{ location: { lat: number; lng: number }; elevation: number | null }> };
+    if (!topoData.results || !Array.isArray(topoData.results)) {
+      throw new Error("Invalid OpenTopoData response format");
+    }
+    
+    // Results come back in request order, so keep the exact requested coordinates.
+    // Points outside dataset coverage (null elevation) are left out.
+    const results: ElevationData[] = [];
+    topoData.results.forEach((result, index) => {
+      if (!isValidElevation(result.elevation)) return;
+      results.push({
+        latitude: requestedLocations[index]?.latitude ?? result.location.lat,
+        longitude: requestedLocations[index]?.longitude ?? result.location.lng,
+        elevation: result.elevation,
+      });
+    });
+    
+    if (results.length === 0) {
+      return { status: "error", data: [], error: "Location is outside dataset coverage" };
+    }
+    
+    return { status: "success", data: results };
+  } catch (error: unknown) {
+    console.error(`Error normalizing elevation data: ${error instanceof Error ? error.message : String(error)}`);
+    return {
+      status: "error",
+      data: [],
+      error: `Failed to normalize elevation response: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Config } from "../../config/config.ts";
+import { path } from "../../deps.ts";
+import { getElevationHttpPolicy, HttpPolicy, httpFetch } from "../http-client.ts";
+import { registerElevationProvider } from "./registry.ts";
+import { decodeElevationPng } from "./tile-decoders.ts";
+import { ElevationProvider, TileResponse } from "./types.ts";
+
+/**
+ * Generic raster-DEM tiles from a {z}/{x}/{y} URL template: AWS terrain tiles,
+ * a self-hosted tile server or a tile directory on disk (file:// or plain path)
+ */
+export const rasterDemProvider: ElevationProvider = {
+  name: "raster-dem",
+  capabilities: {
+    kind: "tile",
+    maxBatchSize: 1,
+    minRequestInterval: 0,
+    maxZoom: 15, // Highest zoom of the public AWS terrain tiles
+    supportsWater: false,
+  },
+  fetchTile: fetchRasterDemTile,
+  getCacheScope: getTileSourceHash,
+};
+
+registerElevationProvider(rasterDemProvider);
+
+/**
+ * Short hash of the URL template and encoding, so tiles of another source are never reused
+ */
+function getTileSourceHash(config: Config): string {
+  const { tileUrlTemplate, tileEncoding } = config.apis.elevation;
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (const character of `${tileEncoding} ${tileUrlTemplate}`) {
+    hash ^= character.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Fetch and decode one tile from the configured URL template
+ */
+async function fetchRasterDemTile(
+  zoom: number,
+  x: number,
+  y: number,
+  config: Config
+): Promise<TileResponse> {
+  try {
+    const { tileUrlTemplate, tileEncoding, apiKey } = config.apis.elevation;
+    const url = tileUrlTemplate
+      .replace("{z}", String(zoom))
+      .replace("{x}", String(x))
+      .replace("{y}", String(y))
+      .replace("{apiKey}", apiKey || "");
+
+    const bytes = await readTileBytes(url, getElevationHttpPolicy(config));
+    if (!bytes) {
+      return { status: "error", error: "Rate limit exceeded", rateLimited: true };
+    }
+
+    return {
+      status: "success",
+      tile: decodeElevationPng(bytes, tileEncoding)
+    };
+  } catch (error: unknown) {
+    return {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Read tile bytes from disk or over HTTP. Returns null when the server rate limits us.
+ */
+async function readTileBytes(url: string, policy: HttpPolicy): Promise<Uint8Array | null> {
+  if (url.startsWith("file://")) {
+    return await Deno.readFile(path.fromFileUrl(url));
+  }
+
+  if (!/^https?:\/\//.test(url)) {
+    return await Deno.readFile(url);
+  }
+
+  const response = await httpFetch(url, {
+    headers: {
+      "Accept": "image/png"
+    }
+  }, policy);
+
+  if (response.status === 429) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Tile server returned ${response.status}: ${response.statusText}`);
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
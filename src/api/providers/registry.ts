@@ -0,0 +1,24 @@
+import { ElevationProvider } from "./types.ts";
+
+const providers = new Map<string, ElevationProvider>();
+
+/**
+ * Register an elevation provider under its name
+ */
+export function registerElevationProvider(provider: ElevationProvider): void {
+  providers.set(provider.name.toLowerCase(), provider);
+}
+
+/**
+ * Look up a registered elevation provider by name
+ */
+export function getElevationProvider(name: string): ElevationProvider | undefined {
+  return providers.get(name.toLowerCase());
+}
+
+/**
+ * Names of all registered elevation providers
+ */
+export function listElevationProviders(): string[] {
+  return [...providers.keys()];
+}
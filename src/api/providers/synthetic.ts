@@ -0,0 +1,208 @@
+import { Config } from "../../config/config.ts";
+import { Coordinate } from "../../utils/coordinates.ts";
+import { registerElevationProvider } from "./registry.ts";
+import { ElevationProvider, ElevationResponse } from "./types.ts";
+
+export type SyntheticPreset = "flat" | "rolling" | "hilly" | "mountainous";
+
+export interface SyntheticTerrainParams {
+  baseElevation: number; // meters at the lowest point of the noise
+  amplitude: number; // meters between the lowest and highest possible point
+  featureSize: number; // km covered by the largest noise features
+  octaves: number;
+  ridgeWeight: number; // 0 = rounded fractal hills, 1 = sharp ridged mountains
+  erosion: number; // damping of small detail on steep slopes, 0 disables it
+  valleyExponent: number; // > 1 widens and flattens valley floors
+}
+
+/**
+ * One preset per terrain class of analyzeTerrain; at the default 5 km area each
+ * lands within that class's TERRAIN_THRESHOLDS range
+ */
+export const SYNTHETIC_PRESETS: Record<SyntheticPreset, SyntheticTerrainParams> = {
+  flat: {
+    baseElevation: 80,
+    amplitude: 90,
+    featureSize: 12,
+    octaves: 4,
+    ridgeWeight: 0,
+    erosion: 0.5,
+    valleyExponent: 1.5,
+  },
+  rolling: {
+    baseElevation: 250,
+    amplitude: 380,
+    featureSize: 6,
+    octaves: 5,
+    ridgeWeight: 0.1,
+    erosion: 1,
+    valleyExponent: 1.2,
+  },
+  hilly: {
+    baseElevation: 450,
+    amplitude: 1500,
+    featureSize: 5,
+    octaves: 6,
+    ridgeWeight: 0.35,
+    erosion: 2,
+    valleyExponent: 1.3,
+  },
+  mountainous: {
+    baseElevation: 1200,
+    amplitude: 4500,
+    featureSize: 5,
+    octaves: 7,
+    ridgeWeight: 0.75,
+    erosion: 3,
+    valleyExponent: 1.6,
+  },
+};
+
+const KM_PER_DEGREE = 111;
+
+/**
+ * Procedural terrain generated from config.apis.elevation.synthetic (seed and preset).
+ * The same seed always gives the same terrain, with no network or quota involved.
+ */
+export const syntheticProvider: ElevationProvider = {
+  name: "synthetic",
+  capabilities: {
+    kind: "point",
+    maxBatchSize: 10000,
+    minRequestInterval: 0,
+    supportsWater: false,
+    skipCache: true,
+  },
+  fetchPoints: fetchSyntheticPoints,
+};
+
+registerElevationProvider(syntheticProvider);
+
+function fetchSyntheticPoints(locations: Coordinate[], config: Config): Promise<ElevationResponse> {
+  const { seed, preset } = config.apis.elevation.synthetic;
+  const params = SYNTHETIC_PRESETS[preset];
+  if (!params) {
+    return Promise.resolve({ status: "error", data: [], error: `Unknown synthetic terrain preset: ${preset}` });
+  }
+
+  const data = locations.map((location) => ({
+    ...location,
+    elevation: Math.round(getSyntheticElevation(location.latitude, location.longitude, seed, params)),
+  }));
+
+  return Promise.resolve({ status: "success", data });
+}
+
+/**
+ * Elevation in meters of the synthetic terrain at a coordinate
+ */
+export function getSyntheticElevation(
+  latitude: number,
+  longitude: number,
+  seed: number,
+  params: SyntheticTerrainParams
+): number {
+  // Work in km so features keep their size away from the equator
+  const x = (longitude * KM_PER_DEGREE * Math.cos(latitude * Math.PI / 180)) / params.featureSize;
+  const y = (latitude * KM_PER_DEGREE) / params.featureSize;
+
+  const hills = (erodedFbm(x, y, seed, params.octaves, params.erosion) + 1) / 2;
+  const ridges = ridgedNoise(x, y, seed + 1013, params.octaves);
+  const height = clamp01(hills * (1 - params.ridgeWeight) + ridges * params.ridgeWeight);
+
+  return params.baseElevation + params.amplitude * Math.pow(height, params.valleyExponent);
+}
+
+/**
+ * Fractal value noise in [-1, 1] where each octave is damped by the slope accumulated
+ * so far: steep flanks stay smooth while valleys and plateaus keep their detail,
+ * which reads like water erosion
+ */
+function erodedFbm(x: number, y: number, seed: number, octaves: number, erosion: number): number {
+  let sum = 0;
+  let norm = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let slopeX = 0;
+  let slopeY = 0;
+
+  for (let octave = 0; octave < octaves; octave++) {
+    const [value, dx, dy] = valueNoise(x * frequency, y * frequency, seed + octave * 7919);
+    slopeX += dx * amplitude;
+    slopeY += dy * amplitude;
+
+    sum += amplitude * value / (1 + erosion * (slopeX * slopeX + slopeY * slopeY));
+    norm += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2.03; // Not exactly 2 so octave grids don't line up
+  }
+
+  return sum / norm;
+}
+
+/**
+ * Ridged multifractal noise in [0, 1]: sharp crests where the noise crosses zero,
+ * with finer octaves concentrated along the crests
+ */
+function ridgedNoise(x: number, y: number, seed: number, octaves: number): number {
+  let sum = 0;
+  let norm = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let weight = 1;
+
+  for (let octave = 0; octave < octaves; octave++) {
+    const [value] = valueNoise(x * frequency, y * frequency, seed + octave * 7919);
+    const ridge = Math.pow(1 - Math.abs(value), 2) * weight;
+    weight = clamp01(ridge * 2);
+
+    sum += amplitude * ridge;
+    norm += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2.03;
+  }
+
+  return sum / norm;
+}
+
+/**
+ * Value noise in [-1, 1] with quintic smoothing, returned with its x and y derivatives
+ */
+function valueNoise(x: number, y: number, seed: number): [number, number, number] {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const fx = x - ix;
+  const fy = y - iy;
+
+  const a = hashLattice(ix, iy, seed);
+  const b = hashLattice(ix + 1, iy, seed);
+  const c = hashLattice(ix, iy + 1, seed);
+  const d = hashLattice(ix + 1, iy + 1, seed);
+
+  const u = fx * fx * fx * (fx * (fx * 6 - 15) + 10);
+  const v = fy * fy * fy * (fy * (fy * 6 - 15) + 10);
+  const du = 30 * fx * fx * (fx * (fx - 2) + 1);
+  const dv = 30 * fy * fy * (fy * (fy - 2) + 1);
+
+  const k = a - b - c + d;
+  return [
+    a + (b - a) * u + (c - a) * v + k * u * v,
+    du * (b - a + k * v),
+    dv * (c - a + k * u),
+  ];
+}
+
+/**
+ * Deterministic pseudo-random value in [-1, 1] for a lattice point
+ */
+function hashLattice(ix: number, iy: number, seed: number): number {
+  let h = Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iy, 0x165667b1) ^ Math.imul(seed | 0, 0x9e3779b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 4294967295) * 2 - 1;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
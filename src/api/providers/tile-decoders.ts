@@ -0,0 +1,46 @@
+import { decode } from "https://deno.land/x/pngs@0.1.1/mod.ts";
+import { isValidElevation } from "../../utils/elevation-grid.ts";
+import { DecodedTile } from "./types.ts";
+
+export type TileEncoding = "mapbox" | "terrarium";
+
+/**
+ * Decode an elevation PNG tile into elevations in meters; empty pixels become NaN
+ */
+export function decodeElevationPng(bytes: Uint8Array, encoding: TileEncoding): DecodedTile {
+  const png = decode(bytes);
+
+  if (!png || !png.image || png.image.length === 0) {
+    throw new Error("Invalid PNG data received for elevation tile");
+  }
+
+  const channels = png.image.length / (png.width * png.height);
+  const elevations = new Float32Array(png.width * png.height);
+  const decodePixel = encoding === "terrarium" ? decodeTerrariumPixel : decodeTerrainRgbPixel;
+
+  for (let i = 0; i < elevations.length; i++) {
+    const idx = i * channels;
+    const elevation = decodePixel(png.image[idx], png.image[idx + 1], png.image[idx + 2]);
+    elevations[i] = isValidElevation(elevation) ? elevation : NaN;
+  }
+
+  return { elevations, width: png.width, height: png.height };
+}
+
+/**
+ * Mapbox terrain-rgb: -10000 + ((R * 256 * 256 + G * 256 + B) * 0.1).
+ * Empty pixels are plain black, which would read as -10000.
+ */
+function decodeTerrainRgbPixel(r: number, g: number, b: number): number {
+  if (r === 0 && g === 0 && b === 0) {
+    return NaN;
+  }
+  return -10000 + ((r * 256 * 256 + g * 256 + b) * 0.1);
+}
+
+/**
+ * Terrarium (AWS terrain tiles, Tilezen): (R * 256 + G + B / 256) - 32768
+ */
+function decodeTerrariumPixel(r: number, g: number, b: number): number {
+  return (r * 256 + g + b / 256) - 32768;
+}
@@ -0,0 +1,73 @@
+import { Config } from "../../config/config.ts";
+import { BoundingBox, Coordinate } from "../../utils/coordinates.ts";
+
+export interface ElevationData {
+  latitude: number;
+  longitude: number;
+  elevation: number;
+}
+
+export interface ElevationResponse {
+  status: string;
+  data: ElevationData[];
+  error?: string;
+  rateLimited?: boolean;
+  isWater?: boolean;
+  fromCache?: boolean;
+  provider?: string; // Provider(s) the data came from
+}
+
+/**
+ * Elevation grid decoded from a raster tile, row by row
+ */
+export interface DecodedTile {
+  elevations: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface TileResponse {
+  status: string;
+  tile?: DecodedTile;
+  error?: string;
+  rateLimited?: boolean;
+}
+
+/**
+ * What a provider can do, used by the elevation layer instead of checking provider names
+ */
+export interface ProviderCapabilities {
+  kind: "point" | "tile";  // Point lookups or raster tiles
+  maxBatchSize: number;     // Locations per request (point providers)
+  minRequestInterval: number; // Minimum delay between two requests in ms
+  dailyQuota?: number;      // Requests allowed per day, if limited
+  maxZoom?: number;         // Highest tile zoom level (tile providers)
+  tileSize?: number;        // Tile width in pixels, 256 if not set (tile providers)
+  supportsWater: boolean;   // Whether checkWater is available
+  skipCache?: boolean;      // Data is already local, don't persist results
+}
+
+export interface ElevationProvider {
+  name: string;
+  capabilities: ProviderCapabilities;
+  defaultBaseUrl?: string; // Used by fallback chain entries that don't set their own baseUrl
+  
+  // Point providers: elevations for up to maxBatchSize locations, in request order.
+  // `area` covers the whole render, so every batch of it can use the same data source.
+  // `onRetry` runs before each retried HTTP call, so retries count against the daily quota.
+  fetchPoints?: (
+    locations: Coordinate[],
+    config: Config,
+    area?: BoundingBox,
+    onRetry?: () => Promise<void>
+  ) => Promise<ElevationResponse>;
+  
+  // Data source a request for `area` reads (e.g. a dataset), kept apart in the cache
+  getCacheScope?: (config: Config, area?: BoundingBox) => string;
+  
+  // Tile providers: download and decode one tile
+  fetchTile?: (zoom: number, x: number, y: number, config: Config) => Promise<TileResponse>;
+  
+  // Water support: true if the coordinate is on water, null if unknown
+  checkWater?: (latitude: number, longitude: number, config: Config) => Promise<boolean | null>;
+}
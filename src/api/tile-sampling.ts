@@ -0,0 +1,159 @@
+import { DecodedTile } from "./providers/index.ts";
+
+export type SamplingMethod = "bilinear" | "bicubic";
+
+const EARTH_CIRCUMFERENCE = 40075016.686; // meters at the equator
+
+/**
+ * Convert latitude and longitude to tile coordinates at a specific zoom level
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param zoom Zoom level
+ * @returns Object containing x and y tile coordinates
+ */
+export function getTileCoordinates(lat: number, lon: number, zoom: number): { x: number; y: number } {
+  const position = getFractionalTilePosition(lat, lon, zoom);
+  return { x: Math.floor(position.x), y: Math.floor(position.y) };
+}
+
+/**
+ * Web Mercator tile position as a fractional number of tiles
+ */
+export function getFractionalTilePosition(lat: number, lon: number, zoom: number): { x: number; y: number } {
+  // Convert to radians
+  const latRad = lat * Math.PI / 180;
+
+  const n = Math.pow(2, zoom);
+  const x = (lon + 180) / 360 * n;
+  const y = (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n;
+
+  return { x, y };
+}
+
+/**
+ * Pick the lowest zoom whose pixel spacing is at least as fine as the grid spacing
+ */
+export function selectTileZoom(
+  gridSpacingMeters: number,
+  latitude: number,
+  tileSize: number,
+  maxZoom: number
+): number {
+  const metersPerPixelAtZoom0 = EARTH_CIRCUMFERENCE * Math.cos(latitude * Math.PI / 180) / tileSize;
+
+  for (let zoom = 0; zoom < maxZoom; zoom++) {
+    if (metersPerPixelAtZoom0 / Math.pow(2, zoom) <= gridSpacingMeters) {
+      return zoom;
+    }
+  }
+
+  return maxZoom;
+}
+
+/**
+ * Sample a decoded tile at a coordinate with sub-pixel interpolation
+ */
+export function sampleTileAt(
+  tile: DecodedTile,
+  latitude: number,
+  longitude: number,
+  tileX: number,
+  tileY: number,
+  zoom: number,
+  method: SamplingMethod
+): number {
+  const position = getFractionalTilePosition(latitude, longitude, zoom);
+
+  // Pixel centers sit at half-pixel offsets
+  const px = (position.x - tileX) * tile.width - 0.5;
+  const py = (position.y - tileY) * tile.height - 0.5;
+
+  const elevation = sampleTile(tile, px, py, method);
+
+  if (!isFinite(elevation)) {
+    throw new Error("No valid elevation values found in the tile");
+  }
+
+  return elevation;
+}
+
+/**
+ * Interpolate a tile (or a mosaic of stitched tiles) at a fractional pixel position
+ */
+export function sampleTile(tile: DecodedTile, px: number, py: number, method: SamplingMethod): number {
+  return method === "bicubic" ? sampleBicubic(tile, px, py) : sampleBilinear(tile, px, py);
+}
+
+/**
+ * Bilinear interpolation between the four pixels around a fractional position.
+ * NaN (NoData) pixels are left out; NaN if all four are missing.
+ */
+export function sampleBilinear(tile: DecodedTile, px: number, py: number): number {
+  const x = clamp(px, 0, tile.width - 1);
+  const y = clamp(py, 0, tile.height - 1);
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, tile.width - 1);
+  const y1 = Math.min(y0 + 1, tile.height - 1);
+  const tx = x - x0;
+  const ty = y - y0;
+
+  const samples: Array<[number, number]> = [
+    [pixel(tile, x0, y0), (1 - tx) * (1 - ty)],
+    [pixel(tile, x1, y0), tx * (1 - ty)],
+    [pixel(tile, x0, y1), (1 - tx) * ty],
+    [pixel(tile, x1, y1), tx * ty],
+  ];
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const [value, weight] of samples) {
+    if (isNaN(value) || weight === 0) continue;
+    weightedSum += value * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : NaN;
+}
+
+/**
+ * Bicubic (Catmull-Rom) interpolation over the 4x4 pixels around a fractional position
+ */
+export function sampleBicubic(tile: DecodedTile, px: number, py: number): number {
+  const x = clamp(px, 0, tile.width - 1);
+  const y = clamp(py, 0, tile.height - 1);
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = x - x0;
+  const ty = y - y0;
+
+  // Bicubic needs the full 4x4 neighbourhood, fall back to bilinear next to NoData
+  const rows: number[] = [];
+  for (let j = -1; j <= 2; j++) {
+    const row = clamp(y0 + j, 0, tile.height - 1);
+    rows.push(catmullRom(
+      pixel(tile, clamp(x0 - 1, 0, tile.width - 1), row),
+      pixel(tile, x0, row),
+      pixel(tile, clamp(x0 + 1, 0, tile.width - 1), row),
+      pixel(tile, clamp(x0 + 2, 0, tile.width - 1), row),
+      tx
+    ));
+  }
+
+  const elevation = catmullRom(rows[0], rows[1], rows[2], rows[3], ty);
+  return isNaN(elevation) ? sampleBilinear(tile, px, py) : elevation;
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  return p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)));
+}
+
+function pixel(tile: DecodedTile, x: number, y: number): number {
+  return tile.elevations[y * tile.width + x];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -1,14 +1,48 @@
 import { AtpAgent, RichText } from 'npm:@atproto/api';
+import { Config } from '../config/config.ts';
+import { forwardGeocode } from '../api/geocoding.ts';
+import { NotificationCursor } from './notification-cursor.ts';
+import type {
+  CoordinateRequest,
+  LocationRequest,
+  PostComment,
+  PostRef,
+  RejectedRequest,
+  RejectionReason,
+  ReliefBot
+} from './types.ts';
 
-export class BlueskyBot {
+// Words people wrap around a place name ("Mont Blanc please!")
+const FILLER_WORDS = /\b(please|pls|plz|thanks|thank you|thx|merci|svp|s'il (te|vous) plaît|how about|what about|relief of|relief|render|show me|draw)\b/gi;
+// Words that make a reply or quote that doesn't mention the bot a request for a place
+const REQUEST_WORDS = /\b(please|pls|plz|svp|s'il (te|vous) plaît|how about|what about|relief|render|show me|draw)\b/i;
+// Posts to the bot with these, but no location found, get told how to ask
+const RENDER_WORDS = /\b(relief of|render|show me|draw)\b/i;
+const BARE_NUMBER_PAIR = /^\s*-?\d+(\.\d+)?\s*[,; ]\s*-?\d+(\.\d+)?\s*$/;
+const MAX_PLACE_QUERY_LENGTH = 80;
+
+// Coordinate pairs: "45.8326, 6.8652" (decimals required), "45.83°N 6.87°E", "45°, 6°"
+const DECIMAL_PAIR = /(?<![\d.])(-?\d{1,3}\.\d+)\s*(?:[,;]\s*|\s+)(-?\d{1,3}\.\d+)(?!\.?\d)/;
+const HEMISPHERE_PAIR = /(?<![\d.])(\d{1,3}(?:\.\d+)?)\s*°?\s*([NS])\b\s*[,;]?\s*(\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])\b/i;
+const DEGREE_PAIR = /(?<![\d.])(-?\d{1,3}(?:\.\d+)?)\s*°\s*[,;]?\s*(-?\d{1,3}(?:\.\d+)?)\s*°/;
+
+// Notifications that can carry a request: "@reliefsbot ...", replies to any bot post, quote posts
+const REQUEST_REASONS = ['mention', 'reply', 'quote'];
+const NOTIFICATIONS_PAGE_SIZE = 50;
+const MAX_NOTIFICATION_PAGES = 10;
+
+export class BlueskyBot implements ReliefBot {
   private agent: AtpAgent;
   private handle: string;
   private appPassword: string;
+  private notificationCursor: NotificationCursor;
+  private unreadNotifications: Array<{ uri: string; indexedAt: string }> = [];
 
-  constructor(handle: string, appPassword: string) {
+  constructor(handle: string, appPassword: string, cursorFile = './cache/notification-cursor.json') {
     this.handle = handle;
     this.appPassword = appPassword;
     this.agent = new AtpAgent({ service: 'https://bsky.social' });
+    this.notificationCursor = new NotificationCursor(cursorFile);
   }
 
   async login() {
@@ -24,7 +58,7 @@ export class BlueskyBot {
     }
   }
 
-  async post(text: string) {
+  async post(text: string, langs?: string[]) {
     try {
       const rt = new RichText({ text });
       await rt.detectFacets(this.agent);
@@ -32,6 +66,7 @@ export class BlueskyBot {
       const response = await this.agent.post({
         text: rt.text,
         facets: rt.facets,
+        langs,
       });
       console.log('Successfully posted to Bluesky');
       return response;
@@ -41,7 +76,10 @@ export class BlueskyBot {
     }
   }
 
-  async postWithImage(text: string, imagePath: string, alt: string) {
+  /**
+   * Post text with one image; langs lists the languages of the text, e.g. ['fr', 'en']
+   */
+  async postWithImage(text: string, imagePath: string, alt: string, langs?: string[]) {
     try {
       const rt = new RichText({ text });
       await rt.detectFacets(this.agent);
@@ -55,6 +93,7 @@ export class BlueskyBot {
       const response = await this.agent.post({
         text: rt.text,
         facets: rt.facets,
+        langs,
         embed: {
           $type: 'app.bsky.embed.images',
           images: [
@@ -74,6 +113,44 @@ export class BlueskyBot {
     }
   }
 
+  /**
+   * Reply in the thread of a post, optionally quoting another post (e.g. the relief).
+   * Mentions in the text become mention facets, so the author is notified.
+   * Failures are logged and return null, a missing reply shouldn't fail the run.
+   */
+  async replyToPost(uri: string, text: string, quote?: PostRef, langs?: string[]): Promise<PostRef | null> {
+    try {
+      const { data } = await this.agent.getPosts({ uris: [uri] });
+      const parentPost = data.posts[0];
+      if (!parentPost) {
+        console.warn(`Cannot reply to ${uri}: post not found`);
+        return null;
+      }
+
+      // The root is the first post of the thread, the parent itself when it isn't a reply
+      const parent = { uri: parentPost.uri, cid: parentPost.cid };
+      const parentRecord = parentPost.record as { reply?: { root?: PostRef } };
+      const root = parentRecord.reply?.root ?? parent;
+
+      const rt = new RichText({ text });
+      await rt.detectFacets(this.agent);
+
+      const response = await this.agent.post({
+        text: rt.text,
+        facets: rt.facets,
+        langs,
+        reply: { root, parent },
+        ...(quote ? { embed: { $type: 'app.bsky.embed.record', record: quote } } : {}),
+      });
+
+      console.log(`Replied to ${uri}`);
+      return response;
+    } catch (error) {
+      console.error(`Failed to reply to ${uri}:`, error);
+      return null;
+    }
+  }
+
   async getLastRenderNumber(): Promise<number> {
     try {
       // Fetch only the last 5 posts from the user's timeline
@@ -110,7 +187,7 @@ export class BlueskyBot {
   /**
    * Get comments/replies from the latest post 
    */
-  async getLatestPostComments(): Promise<Array<{ text: string; author: string; timestamp: string }>> {
+  async getLatestPostComments(): Promise<PostComment[]> {
     try {
       // First get the latest post
       const response = await this.agent.getAuthorFeed({
@@ -134,7 +211,7 @@ export class BlueskyBot {
         depth: 1
       });
 
-      const comments: Array<{ text: string; author: string; timestamp: string }> = [];
+      const comments: PostComment[] = [];
       
       // Extract replies from the thread
       if (repliesResponse.data.thread && '$type' in repliesResponse.data.thread && 
@@ -162,59 +239,223 @@ export class BlueskyBot {
   }
 
   /**
-   * Check if there are any coordinate requests in the latest post comments
+   * Mentions, replies and quotes received since the saved notification cursor, oldest first.
+   * Without a cursor yet, only notifications since the latest post are read.
    */
-  async getRequestedCoordinates(): Promise<{ latitude: number; longitude: number; author: string } | null> {
+  async getRequestNotifications(): Promise<Array<PostComment & { uri: string; indexedAt: string }>> {
     try {
-      const comments = await this.getLatestPostComments();
-      
-      // Sort comments by timestamp to get the earliest request (first-come, first-served)
-      const sortedComments = comments.sort((a, b) => 
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
-      
-      for (const comment of sortedComments) {
-        const coordinates = parseCoordinatesFromText(comment.text);
-        if (coordinates) {
-          console.log(`Found coordinate request from @${comment.author}: ${coordinates.latitude}, ${coordinates.longitude}`);
-          return {
-            ...coordinates,
-            author: comment.author
-          };
+      const cursor = await this.notificationCursor.get();
+      const since = cursor ? Date.parse(cursor.indexedAt) : await this.getLatestPostTime();
+      const comments: Array<PostComment & { uri: string; indexedAt: string }> = [];
+      let pageCursor: string | undefined;
+
+      // Notifications come newest first; page back until the cursor is reached
+      for (let page = 0; page < MAX_NOTIFICATION_PAGES; page++) {
+        const response = await this.agent.listNotifications({
+          limit: NOTIFICATIONS_PAGE_SIZE,
+          cursor: pageCursor
+        });
+
+        let reachedCursor = false;
+        for (const notification of response.data.notifications) {
+          if (since !== null && Date.parse(notification.indexedAt) < since) {
+            reachedCursor = true;
+            break;
+          }
+          if (!REQUEST_REASONS.includes(notification.reason) ||
+              notification.author.handle === this.handle ||
+              await this.notificationCursor.isHandled(notification)) {
+            continue;
+          }
+
+          const record = notification.record as { text?: unknown; createdAt?: unknown };
+          if (typeof record.text !== 'string') continue;
+
+          comments.push({
+            text: record.text,
+            author: notification.author.handle,
+            timestamp: typeof record.createdAt === 'string' ? record.createdAt : notification.indexedAt,
+            uri: notification.uri,
+            indexedAt: notification.indexedAt,
+            reason: notification.reason
+          });
+        }
+
+        pageCursor = response.data.cursor;
+        if (reachedCursor || !pageCursor) break;
+      }
+
+      console.log(`Found ${comments.length} new mentions, replies and quotes`);
+      return comments.sort((a, b) => Date.parse(a.indexedAt) - Date.parse(b.indexedAt));
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Coordinate requests in new mentions, replies and quotes, oldest first, and the
+   * posts that asked for a location in a way that can't be read.
+   * With a config, texts naming a place are geocoded too. The notification cursor
+   * only moves past them with markRequestsRead, so nothing is lost when a run stops
+   * before the requests are queued or answered.
+   */
+  async getNewRequests(config?: Config): Promise<{ requests: CoordinateRequest[]; rejected: RejectedRequest[] }> {
+    const requests: CoordinateRequest[] = [];
+    const rejected: RejectedRequest[] = [];
+
+    try {
+      for (const comment of await this.getRequestNotifications()) {
+        const isAddressed = comment.reason === 'mention' || comment.text.toLowerCase().includes(`@${this.handle.toLowerCase()}`);
+        const location = await parseLocationRequest(comment.text, config, isAddressed);
+        this.unreadNotifications.push(comment);
+
+        if (location) {
+          const place = location.placeName ? ` "${location.placeName}"` : '';
+          console.log(`Found coordinate request from @${comment.author}:${place} ${location.latitude}, ${location.longitude}`);
+          requests.push({
+            ...location,
+            author: comment.author,
+            sourceUri: comment.uri
+          });
+        } else {
+          const reason = classifyUnreadableRequest(comment.text, isAddressed);
+          if (reason) {
+            console.log(`Unreadable request from @${comment.author} (${reason}): ${comment.text}`);
+            rejected.push({ author: comment.author, sourceUri: comment.uri, reason });
+          }
         }
       }
-      
-      return null;
     } catch (error) {
       console.error('Error checking for coordinate requests:', error);
-      return null;
     }
+
+    return { requests, rejected };
+  }
+
+  /**
+   * Move the notification cursor past everything getNewRequests returned
+   */
+  async markRequestsRead(): Promise<void> {
+    for (const notification of this.unreadNotifications) {
+      await this.notificationCursor.advance(notification);
+    }
+    this.unreadNotifications = [];
+  }
+
+  /**
+   * When the bot last posted, in ms since the epoch, or null without posts
+   */
+  private async getLatestPostTime(): Promise<number | null> {
+    const response = await this.agent.getAuthorFeed({
+      actor: this.handle,
+      limit: 1
+    });
+    const latestPost = response.data.feed[0]?.post;
+    return latestPost ? Date.parse(latestPost.indexedAt) : null;
   }
 }
 
 /**
  * Parse coordinates from comment text
- * Supports format: "45.8326, 6.8652"
+ * Supports formats: "45.8326, 6.8652", "45.8326 6.8652", "45.83°N 6.87°E", "45°, 6°"
  */
-function parseCoordinatesFromText(text: string): { latitude: number; longitude: number } | null {
-  const cleanText = text.trim();
-  
-  // Simple decimal coordinates "45.8326, 6.8652" or "48, 2"
-  const simplePattern = /(-?\d+\.?\d*)\s*,\s*(-?\d+\.?\d*)/;
-  const simpleMatch = cleanText.match(simplePattern);
+export function parseCoordinatesFromText(text: string): { latitude: number; longitude: number } | null {
+  const pair = findCoordinatePair(text);
   
-  if (simpleMatch) {
-    const lat = parseFloat(simpleMatch[1]);
-    const lon = parseFloat(simpleMatch[2]);
-    
-    if (isValidCoordinate(lat, lon)) {
-      return { latitude: lat, longitude: lon };
-    }
+  if (pair && isValidCoordinate(pair.latitude, pair.longitude)) {
+    return pair;
   }
   
   return null;
 }
 
+/**
+ * First number pair shaped like coordinates, valid or not. Plain integers need a
+ * degree sign or hemisphere letters, so "4,122m" or "3,5 km" are not coordinates.
+ */
+function findCoordinatePair(text: string): { latitude: number; longitude: number } | null {
+  const hemisphereMatch = text.match(HEMISPHERE_PAIR);
+  if (hemisphereMatch) {
+    const latitude = parseFloat(hemisphereMatch[1]) * (hemisphereMatch[2].toUpperCase() === 'S' ? -1 : 1);
+    const longitude = parseFloat(hemisphereMatch[3]) * (hemisphereMatch[4].toUpperCase() === 'W' ? -1 : 1);
+    return { latitude, longitude };
+  }
+
+  const match = text.match(DEGREE_PAIR) ?? text.match(DECIMAL_PAIR);
+  return match ? { latitude: parseFloat(match[1]), longitude: parseFloat(match[2]) } : null;
+}
+
+/**
+ * Coordinates from comment text, or else the place it names (needs a config to geocode).
+ * Place names are only looked up in posts addressed to the bot or asking for a relief,
+ * so a reply like "Nice!" isn't taken for Nice, France.
+ */
+export async function parseLocationRequest(
+  text: string,
+  config?: Config,
+  isAddressed = false
+): Promise<LocationRequest | null> {
+  const coordinates = parseCoordinatesFromText(text);
+  if (coordinates || !config) {
+    return coordinates;
+  }
+
+  if (!isAddressed && !REQUEST_WORDS.test(text)) {
+    return null;
+  }
+
+  const query = extractPlaceQuery(text);
+  if (!query) {
+    return null;
+  }
+
+  const result = await forwardGeocode(query, config);
+  if (result.status !== 'success' || !result.data) {
+    return null;
+  }
+
+  return {
+    latitude: result.data.latitude,
+    longitude: result.data.longitude,
+    placeName: result.data.name
+  };
+}
+
+/**
+ * Why a text that gave no location still clearly looks like a failed request:
+ * a coordinate pair outside the valid ranges, or a post addressed to the bot that
+ * asks for a relief of something unknown or gives bare numbers. Null for chatter.
+ */
+export function classifyUnreadableRequest(text: string, isAddressed: boolean): RejectionReason | null {
+  if (findCoordinatePair(text)) {
+    return 'out-of-range';
+  }
+
+  const withoutMentions = text.replace(/@[\w.-]+/g, ' ');
+  if (isAddressed && (RENDER_WORDS.test(withoutMentions) || BARE_NUMBER_PAIR.test(withoutMentions))) {
+    return 'unparseable';
+  }
+
+  return null;
+}
+
+/**
+ * Place name from comment text, without mentions, links, hashtags and polite filler
+ */
+function extractPlaceQuery(text: string): string | null {
+  const query = text
+    .replace(/@[\w.-]+/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/#\w+/g, ' ')
+    .replace(FILLER_WORDS, ' ')
+    .replace(/[!?.;:]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return query.length >= 3 && query.length <= MAX_PLACE_QUERY_LENGTH ? query : null;
+}
+
 /**
  * Validate that coordinates are within valid ranges
  */
@@ -0,0 +1,125 @@
+import { Config } from '../config/config.ts';
+import { classifyUnreadableRequest, parseLocationRequest } from './bluesky.ts';
+import type { CoordinateRequest, PostComment, PostRef, RejectedRequest, ReliefBot } from './types.ts';
+
+export interface MemoryPost extends PostRef {
+  text: string;
+  imagePath?: string;
+  alt?: string;
+  langs?: string[];
+  replyTo?: string; // URI of the post replied to
+  quote?: PostRef;
+  createdAt: string;
+}
+
+/**
+ * In-memory stand-in for BlueskyBot: posts are kept in a list instead of being published,
+ * and comments on the latest post are whatever the caller seeds
+ */
+export class InMemoryBot implements ReliefBot {
+  readonly posts: MemoryPost[] = [];
+  private comments: PostComment[];
+  private lastRenderNumber: number;
+  private commentCount = 0;
+  private readComments = new Set<string>(); // URIs returned by getNewRequests, until markRequestsRead
+
+  constructor(options: { comments?: PostComment[]; lastRenderNumber?: number } = {}) {
+    this.comments = options.comments ?? [];
+    this.lastRenderNumber = options.lastRenderNumber ?? 0;
+  }
+
+  login(): Promise<void> {
+    console.log('Using in-memory bot, nothing is sent to Bluesky');
+    return Promise.resolve();
+  }
+
+  post(text: string, langs?: string[]): Promise<MemoryPost> {
+    const post = this.store({ text, langs });
+    this.comments = [];
+    return Promise.resolve(post);
+  }
+
+  postWithImage(text: string, imagePath: string, alt: string, langs?: string[]): Promise<MemoryPost> {
+    const post = this.store({ text, imagePath, alt, langs });
+    this.comments = [];
+
+    const match = text.match(/^\/\/\\\s+.*?#(\d+)/);
+    if (match) {
+      this.lastRenderNumber = parseInt(match[1], 10);
+    }
+
+    console.log(`Stored post #${this.posts.length} in memory (image: ${imagePath})`);
+    return Promise.resolve(post);
+  }
+
+  replyToPost(uri: string, text: string, quote?: PostRef, langs?: string[]): Promise<MemoryPost> {
+    const post = this.store({ text, langs, replyTo: uri, quote });
+    console.log(`Stored reply to ${uri} in memory`);
+    return Promise.resolve(post);
+  }
+
+  getLastRenderNumber(): Promise<number> {
+    return Promise.resolve(this.lastRenderNumber);
+  }
+
+  async getNextRenderNumber(): Promise<number> {
+    return await this.getLastRenderNumber() + 1;
+  }
+
+  /**
+   * Add a reply to the latest post, as if someone commented on it
+   */
+  addComment(text: string, author: string, timestamp = new Date().toISOString()): void {
+    this.commentCount++;
+    this.comments.push({ text, author, timestamp, uri: `memory://comment/${this.commentCount}` });
+  }
+
+  getLatestPostComments(): Promise<PostComment[]> {
+    return Promise.resolve([...this.comments]);
+  }
+
+  /**
+   * Requests in the comments added so far, until markRequestsRead
+   */
+  async getNewRequests(config?: Config): Promise<{ requests: CoordinateRequest[]; rejected: RejectedRequest[] }> {
+    const comments = (await this.getLatestPostComments()).sort((a, b) =>
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    for (const comment of comments) {
+      if (comment.uri) this.readComments.add(comment.uri);
+    }
+
+    const requests: CoordinateRequest[] = [];
+    const rejected: RejectedRequest[] = [];
+    for (const comment of comments) {
+      const location = await parseLocationRequest(comment.text, config);
+      if (location) {
+        requests.push({ ...location, author: comment.author, sourceUri: comment.uri });
+      } else {
+        const reason = classifyUnreadableRequest(comment.text, false);
+        if (reason) {
+          rejected.push({ author: comment.author, sourceUri: comment.uri, reason });
+        }
+      }
+    }
+
+    return { requests, rejected };
+  }
+
+  markRequestsRead(): Promise<void> {
+    this.comments = this.comments.filter((comment) => !comment.uri || !this.readComments.has(comment.uri));
+    this.readComments.clear();
+    return Promise.resolve();
+  }
+
+  private store(post: Omit<MemoryPost, 'uri' | 'cid' | 'createdAt'>): MemoryPost {
+    const stored = {
+      ...post,
+      uri: `memory://post/${this.posts.length + 1}`,
+      cid: `memory-${this.posts.length + 1}`,
+      createdAt: new Date().toISOString(),
+    };
+    this.posts.push(stored);
+    return stored;
+  }
+}
@@ -0,0 +1,80 @@
+import { fs, path } from '../deps.ts';
+
+/**
+ * Newest notification handled so far. Several notifications can share an
+ * indexedAt, so the ones already handled at that instant are listed too.
+ */
+export interface CursorPosition {
+  indexedAt: string;
+  uris: string[];
+}
+
+/**
+ * Position in the notification list kept in a JSON file, so each notification
+ * is handled once across runs
+ */
+export class NotificationCursor {
+  private filePath: string;
+  private position: CursorPosition | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Saved position, or null before the first notification is handled
+   */
+  async get(): Promise<CursorPosition | null> {
+    await this.load();
+    return this.position;
+  }
+
+  /**
+   * Whether a notification is at or before the saved position
+   */
+  async isHandled(notification: { uri: string; indexedAt: string }): Promise<boolean> {
+    const position = await this.get();
+    if (!position) return false;
+
+    const time = Date.parse(notification.indexedAt);
+    const cursorTime = Date.parse(position.indexedAt);
+    return time < cursorTime || (time === cursorTime && position.uris.includes(notification.uri));
+  }
+
+  /**
+   * Move the position forward to a handled notification and write it to disk
+   */
+  async advance(notification: { uri: string; indexedAt: string }): Promise<void> {
+    const position = await this.get();
+    if (position && Date.parse(notification.indexedAt) < Date.parse(position.indexedAt)) {
+      return;
+    }
+
+    this.position = position && position.indexedAt === notification.indexedAt
+      ? { indexedAt: position.indexedAt, uris: [...new Set([...position.uris, notification.uri])] }
+      : { indexedAt: notification.indexedAt, uris: [notification.uri] };
+
+    try {
+      await fs.ensureDir(path.dirname(this.filePath));
+      await Deno.writeTextFile(this.filePath, JSON.stringify(this.position, null, 2));
+    } catch (error: unknown) {
+      console.warn(`Failed to save notification cursor: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.position = JSON.parse(await Deno.readTextFile(this.filePath)) as CursorPosition;
+        } catch (error: unknown) {
+          if (!(error instanceof Deno.errors.NotFound)) {
+            console.warn(`Ignoring unreadable notification cursor ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+}
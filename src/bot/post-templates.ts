@@ -0,0 +1,269 @@
+import type { RejectionReason } from './types.ts';
+
+/**
+ * What the alt text of a relief image describes
+ */
+export interface AltTextDetails {
+  style: string;
+  seafloor: boolean;
+  place?: string; // Location name, when known
+  coordinates?: string; // Absent for imaginary reliefs
+  imaginary?: { seed: number; preset: string };
+  rangeLabel: string; // Label of the range, already translated
+  range: string; // "1,200m to 4,808m"
+  requester?: string;
+}
+
+/**
+ * What a rejection reply can mention
+ */
+export interface RejectionDetails {
+  handle: string;
+  suggestion?: string; // Coordinates to try instead, e.g. the nearest land point
+  rendered?: boolean; // For duplicates: the place was posted, the reply quotes it
+  maxOpen?: number; // For rate-limited requests
+  minElevationRange?: string; // For flat areas, formatted
+}
+
+/**
+ * Wording of a post and its alt text in one language. The "//\ Relief #123"
+ * heading stays the same in every language, render numbers are read back from it.
+ */
+export interface PostTemplate {
+  location: string;
+  near: string;
+  coordinates: string;
+  seed: (seed: number, preset: string) => string;
+  elevationRange: string;
+  depth: string;
+  rangeTo: string; // Between the two ends of a range
+  terrainType: string;
+  terrainTypes: Record<string, string>; // Terrain classes of analyzeTerrain
+  imaginaryLand: string;
+  requestedBy: (handle: string) => string;
+  altText: (details: AltTextDetails) => string;
+  reliefReady: (handle: string, place?: string) => string; // Reply to the request, quoting the relief post
+  requestReceived: (handle: string) => string; // Reply when a request is picked up
+  rejected: Record<RejectionReason, (details: RejectionDetails) => string>; // Reply explaining a rejection
+}
+
+const en: PostTemplate = {
+  location: 'Location',
+  near: 'Near',
+  coordinates: 'Coordinates',
+  seed: (seed, preset) => `Seed: ${seed} (${preset} preset)`,
+  elevationRange: 'Elevation Range',
+  depth: 'Depth',
+  rangeTo: 'to',
+  terrainType: 'Terrain type',
+  terrainTypes: { flat: 'flat', rolling: 'rolling', hilly: 'hilly', mountainous: 'mountainous', unknown: 'unknown' },
+  imaginaryLand: 'Imaginary land',
+  requestedBy: (handle) => `Requested by @${handle}`,
+  altText: (d) => {
+    let text = `Relief visualization in ${d.style} style showing ${d.seafloor ? 'seafloor depth' : 'elevation'} data`;
+    if (d.imaginary) {
+      text += ` of imaginary ${d.imaginary.preset} terrain generated from seed ${d.imaginary.seed}`;
+    } else {
+      if (d.place) text += ` from ${d.place}`;
+      text += ` at coordinates ${d.coordinates}`;
+    }
+    text += ` with ${d.rangeLabel.toLowerCase()} from ${d.range}.`;
+    if (d.requester) text += ` This location was requested by @${d.requester}.`;
+    return text;
+  },
+  reliefReady: (handle, place) => place ? `@${handle} Here is your relief of ${place}!` : `@${handle} Here is the relief you requested!`,
+  requestReceived: (handle) => `@${handle} Got it! Your relief is being rendered and will be posted shortly.`,
+  rejected: {
+    water: (d) => `@${d.handle} That spot is in the water and reliefs need land. ${d.suggestion ? `The nearest land I found is at ${d.suggestion}, try that!` : 'Try coordinates on land!'}`,
+    'out-of-range': (d) => `@${d.handle} Those coordinates are out of range: latitude goes from -90 to 90 and longitude from -180 to 180, e.g. 45.8326, 6.8652`,
+    unparseable: (d) => `@${d.handle} I couldn't find a location in your post. Send "latitude, longitude" such as 45.8326, 6.8652, or a place name such as Mont Blanc.`,
+    duplicate: (d) => d.rendered
+      ? `@${d.handle} This place was rendered recently, here it is!`
+      : `@${d.handle} This place was requested recently and couldn't be rendered. ${d.suggestion ? `Try ${d.suggestion} instead!` : 'Try somewhere else nearby!'}`,
+    'rate-limited': (d) => `@${d.handle} You already have ${d.maxOpen} requests waiting. They are rendered in turn, send new ones once they are posted!`,
+    flat: (d) => `@${d.handle} That area is too flat for a relief (less than ${d.minElevationRange} of elevation change). Try somewhere hillier!`,
+  },
+};
+
+const fr: PostTemplate = {
+  location: 'Lieu',
+  near: 'Près de',
+  coordinates: 'Coordonnées',
+  seed: (seed, preset) => `Graine : ${seed} (préréglage ${preset})`,
+  elevationRange: 'Altitudes',
+  depth: 'Profondeur',
+  rangeTo: 'à',
+  terrainType: 'Type de relief',
+  terrainTypes: { flat: 'plat', rolling: 'ondulé', hilly: 'vallonné', mountainous: 'montagneux', unknown: 'inconnu' },
+  imaginaryLand: 'Terre imaginaire',
+  requestedBy: (handle) => `Demandé par @${handle}`,
+  altText: (d) => {
+    let text = `Visualisation du relief en style ${d.style} montrant ${d.seafloor ? 'la profondeur du fond marin' : "l'altitude"}`;
+    if (d.imaginary) {
+      text += ` d'un terrain imaginaire ${d.imaginary.preset} généré à partir de la graine ${d.imaginary.seed}`;
+    } else {
+      if (d.place) text += ` de ${d.place}`;
+      text += ` aux coordonnées ${d.coordinates}`;
+    }
+    text += `, ${d.rangeLabel.toLowerCase()} de ${d.range}.`;
+    if (d.requester) text += ` Ce lieu a été demandé par @${d.requester}.`;
+    return text;
+  },
+  reliefReady: (handle, place) => place ? `@${handle} Voici votre relief de ${place} !` : `@${handle} Voici le relief que vous avez demandé !`,
+  requestReceived: (handle) => `@${handle} Bien reçu ! Votre relief est en cours de rendu et sera publié sous peu.`,
+  rejected: {
+    water: (d) => `@${d.handle} Ce point est dans l'eau et un relief a besoin de terre. ${d.suggestion ? `La terre la plus proche est en ${d.suggestion}, essayez-la !` : 'Essayez des coordonnées sur la terre ferme !'}`,
+    'out-of-range': (d) => `@${d.handle} Ces coordonnées sont hors limites : la latitude va de -90 à 90 et la longitude de -180 à 180, par exemple 45.8326, 6.8652`,
+    unparseable: (d) => `@${d.handle} Je n'ai pas trouvé de lieu dans votre message. Envoyez « latitude, longitude » comme 45.8326, 6.8652, ou un nom de lieu comme Mont Blanc.`,
+    duplicate: (d) => d.rendered
+      ? `@${d.handle} Ce lieu a été rendu récemment, le voici !`
+      : `@${d.handle} Ce lieu a été demandé récemment et n'a pas pu être rendu. ${d.suggestion ? `Essayez plutôt ${d.suggestion} !` : 'Essayez un autre endroit proche !'}`,
+    'rate-limited': (d) => `@${d.handle} Vous avez déjà ${d.maxOpen} demandes en attente. Elles sont rendues à tour de rôle, envoyez-en d'autres une fois publiées !`,
+    flat: (d) => `@${d.handle} Cette zone est trop plate pour un relief (moins de ${d.minElevationRange} de dénivelé). Essayez un endroit plus accidenté !`,
+  },
+};
+
+const de: PostTemplate = {
+  location: 'Ort',
+  near: 'In der Nähe',
+  coordinates: 'Koordinaten',
+  seed: (seed, preset) => `Seed: ${seed} (Voreinstellung ${preset})`,
+  elevationRange: 'Höhenbereich',
+  depth: 'Tiefe',
+  rangeTo: 'bis',
+  terrainType: 'Geländetyp',
+  terrainTypes: { flat: 'flach', rolling: 'wellig', hilly: 'hügelig', mountainous: 'gebirgig', unknown: 'unbekannt' },
+  imaginaryLand: 'Imaginäres Land',
+  requestedBy: (handle) => `Angefragt von @${handle}`,
+  altText: (d) => {
+    let text = `Reliefdarstellung im Stil ${d.style} mit ${d.seafloor ? 'Meeresbodentiefen' : 'Höhendaten'}`;
+    if (d.imaginary) {
+      text += ` eines imaginären Geländes (${d.imaginary.preset}), erzeugt aus Seed ${d.imaginary.seed}`;
+    } else {
+      if (d.place) text += ` von ${d.place}`;
+      text += ` bei den Koordinaten ${d.coordinates}`;
+    }
+    text += `, ${d.rangeLabel}: ${d.range}.`;
+    if (d.requester) text += ` Dieser Ort wurde von @${d.requester} angefragt.`;
+    return text;
+  },
+  reliefReady: (handle, place) => place ? `@${handle} Hier ist dein Relief von ${place}!` : `@${handle} Hier ist das Relief, das du angefragt hast!`,
+  requestReceived: (handle) => `@${handle} Angekommen! Dein Relief wird gerade gerendert und bald gepostet.`,
+  rejected: {
+    water: (d) => `@${d.handle} Dieser Punkt liegt im Wasser, ein Relief braucht Land. ${d.suggestion ? `Das nächste Land liegt bei ${d.suggestion}, versuch es damit!` : 'Versuch es mit Koordinaten an Land!'}`,
+    'out-of-range': (d) => `@${d.handle} Diese Koordinaten liegen außerhalb des gültigen Bereichs: Breite von -90 bis 90, Länge von -180 bis 180, z. B. 45.8326, 6.8652`,
+    unparseable: (d) => `@${d.handle} Ich konnte in deinem Beitrag keinen Ort finden. Schick „Breite, Länge“ wie 45.8326, 6.8652 oder einen Ortsnamen wie Mont Blanc.`,
+    duplicate: (d) => d.rendered
+      ? `@${d.handle} Dieser Ort wurde kürzlich gerendert, hier ist er!`
+      : `@${d.handle} Dieser Ort wurde kürzlich angefragt und konnte nicht gerendert werden. ${d.suggestion ? `Versuch es stattdessen mit ${d.suggestion}!` : 'Versuch einen anderen Ort in der Nähe!'}`,
+    'rate-limited': (d) => `@${d.handle} Du hast schon ${d.maxOpen} offene Anfragen. Sie kommen der Reihe nach dran, schick neue, sobald sie gepostet sind!`,
+    flat: (d) => `@${d.handle} Diese Gegend ist zu flach für ein Relief (weniger als ${d.minElevationRange} Höhenunterschied). Versuch eine hügeligere Gegend!`,
+  },
+};
+
+const es: PostTemplate = {
+  location: 'Lugar',
+  near: 'Cerca de',
+  coordinates: 'Coordenadas',
+  seed: (seed, preset) => `Semilla: ${seed} (preajuste ${preset})`,
+  elevationRange: 'Rango de altitud',
+  depth: 'Profundidad',
+  rangeTo: 'a',
+  terrainType: 'Tipo de terreno',
+  terrainTypes: { flat: 'llano', rolling: 'ondulado', hilly: 'accidentado', mountainous: 'montañoso', unknown: 'desconocido' },
+  imaginaryLand: 'Tierra imaginaria',
+  requestedBy: (handle) => `Solicitado por @${handle}`,
+  altText: (d) => {
+    let text = `Visualización del relieve en estilo ${d.style} con datos de ${d.seafloor ? 'profundidad del fondo marino' : 'altitud'}`;
+    if (d.imaginary) {
+      text += ` de un terreno imaginario ${d.imaginary.preset} generado con la semilla ${d.imaginary.seed}`;
+    } else {
+      if (d.place) text += ` de ${d.place}`;
+      text += ` en las coordenadas ${d.coordinates}`;
+    }
+    text += `, ${d.rangeLabel.toLowerCase()} de ${d.range}.`;
+    if (d.requester) text += ` Este lugar fue solicitado por @${d.requester}.`;
+    return text;
+  },
+  reliefReady: (handle, place) => place ? `@${handle} ¡Aquí tienes tu relieve de ${place}!` : `@${handle} ¡Aquí tienes el relieve que pediste!`,
+  requestReceived: (handle) => `@${handle} ¡Recibido! Tu relieve se está generando y se publicará en breve.`,
+  rejected: {
+    water: (d) => `@${d.handle} Ese punto está en el agua y un relieve necesita tierra. ${d.suggestion ? `La tierra más cercana está en ${d.suggestion}, ¡prueba ahí!` : '¡Prueba con coordenadas en tierra!'}`,
+    'out-of-range': (d) => `@${d.handle} Esas coordenadas están fuera de rango: la latitud va de -90 a 90 y la longitud de -180 a 180, por ejemplo 45.8326, 6.8652`,
+    unparseable: (d) => `@${d.handle} No encontré ningún lugar en tu mensaje. Envía «latitud, longitud» como 45.8326, 6.8652, o un nombre de lugar como Mont Blanc.`,
+    duplicate: (d) => d.rendered
+      ? `@${d.handle} Este lugar se generó hace poco, ¡aquí lo tienes!`
+      : `@${d.handle} Este lugar se pidió hace poco y no se pudo generar. ${d.suggestion ? `¡Prueba con ${d.suggestion}!` : '¡Prueba otro lugar cercano!'}`,
+    'rate-limited': (d) => `@${d.handle} Ya tienes ${d.maxOpen} solicitudes en espera. Se generan por turnos, ¡envía más cuando se publiquen!`,
+    flat: (d) => `@${d.handle} Esa zona es demasiado llana para un relieve (menos de ${d.minElevationRange} de desnivel). ¡Prueba un lugar más montañoso!`,
+  },
+};
+
+const it: PostTemplate = {
+  location: 'Luogo',
+  near: 'Vicino a',
+  coordinates: 'Coordinate',
+  seed: (seed, preset) => `Seme: ${seed} (preset ${preset})`,
+  elevationRange: 'Intervallo di quota',
+  depth: 'Profondità',
+  rangeTo: 'a',
+  terrainType: 'Tipo di terreno',
+  terrainTypes: { flat: 'pianeggiante', rolling: 'ondulato', hilly: 'collinare', mountainous: 'montuoso', unknown: 'sconosciuto' },
+  imaginaryLand: 'Terra immaginaria',
+  requestedBy: (handle) => `Richiesto da @${handle}`,
+  altText: (d) => {
+    let text = `Visualizzazione del rilievo in stile ${d.style} con dati di ${d.seafloor ? 'profondità del fondale' : 'quota'}`;
+    if (d.imaginary) {
+      text += ` di un terreno immaginario ${d.imaginary.preset} generato dal seme ${d.imaginary.seed}`;
+    } else {
+      if (d.place) text += ` di ${d.place}`;
+      text += ` alle coordinate ${d.coordinates}`;
+    }
+    text += `, ${d.rangeLabel.toLowerCase()} da ${d.range}.`;
+    if (d.requester) text += ` Questo luogo è stato richiesto da @${d.requester}.`;
+    return text;
+  },
+  reliefReady: (handle, place) => place ? `@${handle} Ecco il tuo rilievo di ${place}!` : `@${handle} Ecco il rilievo che hai richiesto!`,
+  requestReceived: (handle) => `@${handle} Ricevuto! Il tuo rilievo è in preparazione e sarà pubblicato a breve.`,
+  rejected: {
+    water: (d) => `@${d.handle} Quel punto è in acqua e un rilievo ha bisogno di terra. ${d.suggestion ? `La terra più vicina è a ${d.suggestion}, prova lì!` : 'Prova con coordinate sulla terraferma!'}`,
+    'out-of-range': (d) => `@${d.handle} Quelle coordinate sono fuori intervallo: la latitudine va da -90 a 90 e la longitudine da -180 a 180, ad esempio 45.8326, 6.8652`,
+    unparseable: (d) => `@${d.handle} Non ho trovato un luogo nel tuo post. Invia «latitudine, longitudine» come 45.8326, 6.8652, o il nome di un luogo come Monte Bianco.`,
+    duplicate: (d) => d.rendered
+      ? `@${d.handle} Questo luogo è stato generato di recente, eccolo!`
+      : `@${d.handle} Questo luogo è stato richiesto di recente e non è stato possibile generarlo. ${d.suggestion ? `Prova invece ${d.suggestion}!` : 'Prova un altro posto vicino!'}`,
+    'rate-limited': (d) => `@${d.handle} Hai già ${d.maxOpen} richieste in attesa. Vengono generate a turno, inviane altre quando saranno pubblicate!`,
+    flat: (d) => `@${d.handle} Quella zona è troppo pianeggiante per un rilievo (meno di ${d.minElevationRange} di dislivello). Prova un posto più accidentato!`,
+  },
+};
+
+export const POST_TEMPLATES: Record<string, PostTemplate> = { en, fr, de, es, it };
+
+/**
+ * Template for a language code such as "fr" or "fr-CA", English when there is none
+ */
+export function getPostTemplate(language: string): PostTemplate {
+  return POST_TEMPLATES[language.split('-')[0].toLowerCase()] ?? en;
+}
+
+/**
+ * Meters with the language's thousands separators and a real minus sign, e.g. "−7,800m"
+ */
+export function formatMeters(value: number, language = 'en'): string {
+  return `${value < 0 ? '\u2212' : ''}${Math.abs(Math.round(value)).toLocaleString(language)}m`;
+}
+
+/**
+ * "Depth: −7,800m to −5,200m" when everything is below sea level, an elevation range otherwise
+ */
+export function formatElevationRange(
+  min: number,
+  max: number,
+  language = 'en'
+): { label: string; range: string } {
+  const template = getPostTemplate(language);
+  return {
+    label: max <= 0 ? template.depth : template.elevationRange,
+    range: `${formatMeters(min, language)} ${template.rangeTo} ${formatMeters(max, language)}`,
+  };
+}
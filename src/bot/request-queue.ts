@@ -0,0 +1,260 @@
+import { fs, path } from '../deps.ts';
+import { Coordinate, getDistanceKm } from '../utils/coordinates.ts';
+import type { CoordinateRequest, PostRef, RejectionReason } from './types.ts';
+
+export type RequestStatus = 'pending' | 'done' | 'failed' | 'rejected';
+
+export interface QueuedRequest extends CoordinateRequest {
+  id: string;
+  status: RequestStatus;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number; // Runs that picked the request, a run that crashes leaves it pending
+  error?: string; // Why a request failed or was rejected
+  rejection?: RejectionReason; // Set when the requester is owed an explanation
+  suggestion?: Coordinate; // Where to try instead, e.g. the nearest land
+  duplicateOf?: string; // Id of the earlier request for the same place
+  reliefPost?: PostRef; // Relief post that answered the request
+  repliedAt?: string; // When the rejection was explained, it is only replied to once
+  mergedRequests: Array<{ author: string; sourceUri?: string; createdAt: string }>; // Same place asked by others
+}
+
+export interface RequestQueueOptions {
+  dedupeRadiusKm: number; // Pending requests closer than this are merged into one
+  maxOpenPerUser: number; // Pending requests a user can have at once
+  maxAttempts: number; // Picks before a request that keeps crashing the run is failed
+  historyDays: number; // Finished requests are forgotten after this
+}
+
+export type AddResult = 'queued' | 'merged' | 'known' | 'duplicate' | 'limited';
+
+/**
+ * Location requests kept in a JSON file, so requests not rendered yet carry over
+ * to later runs. Requests for the same place are merged, each user has a limited
+ * number of open requests, and users are served in turn.
+ */
+export class RequestQueue {
+  private filePath: string;
+  private options: RequestQueueOptions;
+  private requests: QueuedRequest[] = [];
+  private loading: Promise<void> | null = null;
+  private persist: boolean;
+
+  /**
+   * With persist off the file is read but never written, for dry runs
+   */
+  constructor(filePath: string, options: RequestQueueOptions, persist = true) {
+    this.filePath = filePath;
+    this.options = options;
+    this.persist = persist;
+  }
+
+  /**
+   * Add a request, merging it into a pending one for a nearby place. Requests for a
+   * place handled recently, or over the per-user limit, are kept as rejected.
+   * A source post already in the queue is "known" and left alone.
+   */
+  async add(request: CoordinateRequest): Promise<{ result: AddResult; entry: QueuedRequest }> {
+    await this.load();
+    const now = new Date().toISOString();
+
+    const existing = request.sourceUri ? this.findBySource(request.sourceUri) : undefined;
+    if (existing) {
+      return { result: 'known', entry: existing };
+    }
+
+    const nearby = this.requests.find((entry) =>
+      entry.status === 'pending' && getDistanceKm(entry, request) <= this.options.dedupeRadiusKm
+    );
+    if (nearby) {
+      if (nearby.author !== request.author && !nearby.mergedRequests.some((merged) => merged.author === request.author)) {
+        nearby.mergedRequests.push({ author: request.author, sourceUri: request.sourceUri, createdAt: now });
+      }
+      nearby.updatedAt = now;
+      await this.save();
+      return { result: 'merged', entry: nearby };
+    }
+
+    const entry: QueuedRequest = {
+      ...request,
+      id: crypto.randomUUID(),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0,
+      mergedRequests: [],
+    };
+
+    // Latest posted request for about the same place; a place that failed is asked again,
+    // so the requester hears why it can't be rendered
+    const previous = this.requests
+      .filter((other) => other.status === 'done' &&
+        getDistanceKm(other, request) <= this.options.dedupeRadiusKm)
+      .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt))[0];
+
+    let result: AddResult = 'queued';
+    if (previous) {
+      result = 'duplicate';
+      Object.assign(entry, { status: 'rejected', rejection: 'duplicate', duplicateOf: previous.id, error: `Same place as request ${previous.id}` });
+    } else if (this.getOpenCount(request.author) >= this.options.maxOpenPerUser) {
+      result = 'limited';
+      Object.assign(entry, { status: 'rejected', rejection: 'rate-limited', error: `@${request.author} already has ${this.options.maxOpenPerUser} open requests` });
+    }
+
+    this.requests.push(entry);
+    await this.save();
+
+    return { result, entry };
+  }
+
+  /**
+   * Pick the next request to render, counting the attempt. Round-robin between users:
+   * the user served longest ago (or never) goes first, with their oldest request.
+   */
+  async next(): Promise<QueuedRequest | null> {
+    await this.load();
+
+    for (const entry of this.getPending()) {
+      if (entry.attempts >= this.options.maxAttempts) {
+        this.setStatus(entry, 'failed', `Gave up after ${entry.attempts} attempts`);
+      }
+    }
+
+    // A failed request used the user's turn as much as a posted one
+    const lastServed = new Map<string, number>();
+    for (const entry of this.requests) {
+      if (entry.status === 'done' || entry.status === 'failed') {
+        lastServed.set(entry.author, Math.max(lastServed.get(entry.author) ?? 0, Date.parse(entry.updatedAt)));
+      }
+    }
+
+    const [next] = this.getPending().sort((a, b) =>
+      (lastServed.get(a.author) ?? 0) - (lastServed.get(b.author) ?? 0) ||
+      Date.parse(a.createdAt) - Date.parse(b.createdAt)
+    );
+
+    if (next) {
+      next.attempts++;
+      next.updatedAt = new Date().toISOString();
+    }
+    await this.save();
+
+    return next ?? null;
+  }
+
+  /**
+   * Mark a request as posted, keeping the relief post for later duplicates
+   */
+  async complete(id: string, reliefPost?: PostRef): Promise<void> {
+    await this.update(id, 'done', undefined, { reliefPost });
+  }
+
+  /**
+   * Mark a request as impossible to render, e.g. a location at sea; with a
+   * rejection reason the requester gets a reply explaining it
+   */
+  async fail(id: string, error: string, rejection?: RejectionReason, suggestion?: Coordinate): Promise<void> {
+    await this.update(id, 'failed', error, { rejection, suggestion });
+  }
+
+  /**
+   * Rejected or failed requests whose requester hasn't been told why yet
+   */
+  async unanswered(): Promise<QueuedRequest[]> {
+    await this.load();
+    return this.requests.filter((entry) => entry.rejection && entry.sourceUri && !entry.repliedAt);
+  }
+
+  /**
+   * Record that a rejection was explained, so it is never replied to again
+   */
+  async markReplied(id: string): Promise<void> {
+    await this.load();
+    const entry = this.find(id);
+    if (entry) {
+      entry.repliedAt = new Date().toISOString();
+      await this.save();
+    }
+  }
+
+  /**
+   * Request by id, while it is remembered
+   */
+  find(id: string): QueuedRequest | undefined {
+    return this.requests.find((entry) => entry.id === id);
+  }
+
+  /**
+   * Requests waiting to be rendered, oldest first
+   */
+  async pending(): Promise<QueuedRequest[]> {
+    await this.load();
+    return this.getPending();
+  }
+
+  private getPending(): QueuedRequest[] {
+    return this.requests
+      .filter((entry) => entry.status === 'pending')
+      .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  }
+
+  private getOpenCount(author: string): number {
+    return this.requests.filter((entry) => entry.status === 'pending' && entry.author === author).length;
+  }
+
+  private findBySource(sourceUri: string): QueuedRequest | undefined {
+    return this.requests.find((entry) =>
+      entry.sourceUri === sourceUri || entry.mergedRequests.some((merged) => merged.sourceUri === sourceUri)
+    );
+  }
+
+  private async update(
+    id: string,
+    status: RequestStatus,
+    error?: string,
+    details: Partial<Pick<QueuedRequest, 'rejection' | 'suggestion' | 'reliefPost'>> = {}
+  ): Promise<void> {
+    await this.load();
+    const entry = this.find(id);
+    if (entry) {
+      this.setStatus(entry, status, error);
+      Object.assign(entry, details);
+      await this.save();
+    }
+  }
+
+  private setStatus(entry: QueuedRequest, status: RequestStatus, error?: string): void {
+    entry.status = status;
+    entry.error = error;
+    entry.updatedAt = new Date().toISOString();
+  }
+
+  private async save(): Promise<void> {
+    // Finished requests are only kept as long as they matter for source dedupe and turns
+    const cutoff = Date.now() - this.options.historyDays * 24 * 60 * 60 * 1000;
+    this.requests = this.requests.filter((entry) => entry.status === 'pending' || Date.parse(entry.updatedAt) >= cutoff);
+    if (!this.persist) return;
+
+    try {
+      await fs.ensureDir(path.dirname(this.filePath));
+      await Deno.writeTextFile(this.filePath, JSON.stringify(this.requests, null, 2));
+    } catch (error: unknown) {
+      console.warn(`Failed to save request queue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          this.requests = JSON.parse(await Deno.readTextFile(this.filePath)) as QueuedRequest[];
+        } catch (error: unknown) {
+          if (!(error instanceof Deno.errors.NotFound)) {
+            console.warn(`Ignoring unreadable request queue ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+}
@@ -0,0 +1,50 @@
+import type { Config } from '../config/config.ts';
+
+export interface PostComment {
+  text: string;
+  author: string;
+  timestamp: string;
+  uri?: string; // at:// URI of the post the text comes from
+  indexedAt?: string; // When Bluesky indexed the notification for it
+  reason?: string; // Notification reason: mention, reply or quote
+}
+
+export interface LocationRequest {
+  latitude: number;
+  longitude: number;
+  placeName?: string; // Resolved name when the request named a place instead of giving coordinates
+}
+
+// Why a request can't be rendered; the requester gets one reply explaining it
+export type RejectionReason = 'water' | 'out-of-range' | 'unparseable' | 'duplicate' | 'rate-limited' | 'flat';
+
+export interface CoordinateRequest extends LocationRequest {
+  author: string;
+  sourceUri?: string; // Post the request was made in
+}
+
+// A post that asked for a location the bot could not read
+export interface RejectedRequest {
+  author: string;
+  sourceUri?: string;
+  reason: RejectionReason;
+}
+
+// Reference to a published post, as used for replies and quotes
+export interface PostRef {
+  uri: string;
+  cid: string;
+}
+
+/**
+ * What main.ts needs from a bot, so an offline stand-in can replace Bluesky
+ */
+export interface ReliefBot {
+  login(): Promise<void>;
+  postWithImage(text: string, imagePath: string, alt: string, langs?: string[]): Promise<PostRef>;
+  replyToPost(uri: string, text: string, quote?: PostRef, langs?: string[]): Promise<PostRef | null>;
+  getNextRenderNumber(): Promise<number>;
+  getLatestPostComments(): Promise<PostComment[]>;
+  getNewRequests(config?: Config): Promise<{ requests: CoordinateRequest[]; rejected: RejectedRequest[] }>;
+  markRequestsRead(): Promise<void>; // Once what getNewRequests returned is queued or answered
+}
@@ -1,8 +1,30 @@
 import { loadEnv, path, fs } from "../deps.ts";
+import type { SyntheticPreset, TileEncoding } from "../api/providers/index.ts";
+import type { SamplingMethod } from "../api/tile-sampling.ts";
+import type { FixtureOptions } from "../api/http-fixtures.ts";
+import type { BoundingBox } from "../utils/coordinates.ts";
 
 export const BASE_RENDER_SIZE = 675;
 export const RENDER_SIZE = 2000;
 
+// One entry of the elevation provider fallback chain
+export interface ElevationProviderConfig {
+  name: string;
+  apiKey?: string;
+  baseUrl?: string; // Defaults to the provider's own endpoint
+}
+
+// OpenTopoData dataset used when a render lies entirely inside `area`
+export interface DatasetRule {
+  dataset: string; // One dataset or a fallback list such as "eudem25m,aster30m"
+  area: BoundingBox;
+}
+
+// "primary" answers from local data only, "fallback" when Nominatim fails or finds nothing
+export type OfflineGeocodingMode = "off" | "fallback" | "primary";
+
+export type NaturalFeatureSource = "off" | "overpass" | "local";
+
 // Define the configuration interface
 export interface Config {
   // API credentials
@@ -11,14 +33,48 @@ export interface Config {
       provider: string;
       apiKey?: string;
       baseUrl: string;
-      rateLimit: number;
+      rateLimit: number; // requests per minute to the same host, capped at 60 for the public OpenTopoData API
       requestTimeout: number;
       retryAttempts: number;
       retryDelay: number;
+      localDemDir: string; // DEM files used by the "local" provider
+      tileUrlTemplate: string; // {z}/{x}/{y} tiles used by the "raster-dem" provider
+      tileEncoding: TileEncoding;
+      sampling: SamplingMethod; // Interpolation between tile pixels
+      maxConcurrentRequests: number; // Tile downloads allowed at once
+      tileZoom?: number; // Fixed tile zoom, picked from areaSize and resolution when unset
+      providers?: ElevationProviderConfig[]; // Tried in order; only `provider` is used when unset
+      dataset: string; // OpenTopoData dataset(s) used when no rule matches
+      datasetRules: DatasetRule[]; // Regional datasets, first matching rule wins
+      bathymetry: {
+        enabled: boolean; // Render the seafloor of water locations instead of rejecting them
+        provider: string; // Provider with negative elevations below sea level
+        dataset: string; // OpenTopoData dataset used when that provider is opentopodata
+      };
+      synthetic: {
+        seed: number; // Same seed, same terrain
+        preset: SyntheticPreset; // Terrain class the "synthetic" provider imitates
+      };
     };
     geocoding: {
       baseUrl: string;
-      rateLimit: number;
+      rateLimit: number; // requests per minute, capped at 60 for the public Nominatim server
+      requestTimeout: number;
+      retryAttempts: number;
+      retryDelay: number;
+      userAgent: string; // identifies the bot to Nominatim, as its usage policy requires
+      email?: string; // contact address sent with every request
+      offline: OfflineGeocodingMode; // Local gazetteer instead of, or after, Nominatim
+      offlineDataDir: string; // GeoNames tables and boundary GeoJSON for offline lookups
+    };
+    features: {
+      source: NaturalFeatureSource; // Where named peaks, glaciers... for the "Near:" line come from
+      baseUrl: string; // Overpass API interpreter endpoint
+      localDataDir: string; // OSM features exported as GeoJSON, for the "local" source
+      rateLimit: number; // requests per minute
+      requestTimeout: number;
+      retryAttempts: number;
+      retryDelay: number;
     };
   };
   
@@ -49,12 +105,29 @@ export interface Config {
     appPassword?: string;
     baseUrl: string;
     postFrequency: string; // cron expression
+    languages: string[]; // BCP 47 codes; the first one writes the post, all of them name places
+    acknowledgeRequests: boolean; // reply to a request as soon as a run picks it up
+    requestQueue: {
+      dedupeRadiusKm: number; // pending requests closer than this are merged
+      maxOpenPerUser: number; // pending requests one user can have at once
+      maxAttempts: number; // runs that may pick a request before it is failed
+      historyDays: number; // finished requests are kept this long
+    };
   };
   
   // System settings
   system: {
     cacheDir: string;
     logLevel: string;
+    elevationCache: {
+      maxSizeMb: number; // disk space for cached tiles and point results
+      ttlDays: number; // cached elevation older than this is fetched again
+    };
+    geocodingCache: {
+      maxSizeMb: number; // disk space for cached place lookups
+      ttlDays: number; // cached places older than this are looked up again
+    };
+    httpFixtures: FixtureOptions; // record/replay of API calls for offline runs
   };
 }
 
@@ -68,10 +141,46 @@ const defaultConfig: Config = {
       requestTimeout: 10000, // 10 seconds
       retryAttempts: 3,
       retryDelay: 2000, // 2 seconds
+      localDemDir: "./dem",
+      tileUrlTemplate: "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png",
+      tileEncoding: "terrarium",
+      sampling: "bilinear",
+      maxConcurrentRequests: 4,
+      dataset: "aster30m",
+      datasetRules: [
+        // Points missing from a regional dataset are filled from the global one
+        { dataset: "nzdem8m,aster30m", area: { minLat: -47.5, maxLat: -34, minLon: 166, maxLon: 179 } },
+        { dataset: "ned10m,aster30m", area: { minLat: 24, maxLat: 50, minLon: -125, maxLon: -66 } },
+        { dataset: "eudem25m,aster30m", area: { minLat: 34, maxLat: 72, minLon: -25, maxLon: 45 } },
+      ],
+      bathymetry: {
+        enabled: false,
+        provider: "opentopodata",
+        dataset: "gebco2020",
+      },
+      synthetic: {
+        seed: 1,
+        preset: "hilly",
+      },
     },
     geocoding: {
       baseUrl: "https://nominatim.openstreetmap.org",
       rateLimit: 60,
+      requestTimeout: 10000, // 10 seconds
+      retryAttempts: 2,
+      retryDelay: 2000, // 2 seconds
+      userAgent: "BotBlueskyReliefs/1.0 (+https://github.com/Bastou/bot-bluesky-reliefs)",
+      offline: "fallback",
+      offlineDataDir: "./data/places",
+    },
+    features: {
+      source: "overpass",
+      baseUrl: "https://overpass-api.de/api/interpreter",
+      localDataDir: "./data/features",
+      rateLimit: 10,
+      requestTimeout: 30000, // 30 seconds, Overpass queries can be slow
+      retryAttempts: 2,
+      retryDelay: 5000, // 5 seconds
     },
   },
   geographic: {
@@ -94,10 +203,30 @@ const defaultConfig: Config = {
     handle: "reliefsbot.bsky.social",
     baseUrl: "https://bsky.social",
     postFrequency: "0 12 * * *", // Daily at noon
+    languages: ["en"],
+    acknowledgeRequests: false,
+    requestQueue: {
+      dedupeRadiusKm: 5, // About one render area
+      maxOpenPerUser: 3,
+      maxAttempts: 3,
+      historyDays: 30,
+    },
   },
   system: {
     cacheDir: "./cache",
     logLevel: "INFO",
+    elevationCache: {
+      maxSizeMb: 500,
+      ttlDays: 30,
+    },
+    geocodingCache: {
+      maxSizeMb: 20,
+      ttlDays: 90,
+    },
+    httpFixtures: {
+      mode: "off",
+      directory: "./fixtures/http",
+    },
   },
 };
 
@@ -129,6 +258,113 @@ export async function setupConfig(): Promise<Config> {
       config.apis.elevation.baseUrl = env.ELEVATION_BASE_URL;
     }
     
+    if (env.OPENTOPODATA_DATASET) {
+      config.apis.elevation.dataset = env.OPENTOPODATA_DATASET;
+    }
+    
+    if (env.OPENTOPODATA_DATASET_RULES === "false") {
+      config.apis.elevation.datasetRules = [];
+    }
+    
+    if (env.BATHYMETRY) {
+      config.apis.elevation.bathymetry.enabled = env.BATHYMETRY === "true";
+    }
+    
+    if (env.BATHYMETRY_PROVIDER) {
+      config.apis.elevation.bathymetry.provider = env.BATHYMETRY_PROVIDER;
+    }
+    
+    if (env.BATHYMETRY_DATASET) {
+      config.apis.elevation.bathymetry.dataset = env.BATHYMETRY_DATASET;
+    }
+    
+    if (env.SYNTHETIC_SEED) {
+      config.apis.elevation.synthetic.seed = parseInt(env.SYNTHETIC_SEED, 10);
+    }
+    
+    if (["flat", "rolling", "hilly", "mountainous"].includes(env.SYNTHETIC_PRESET)) {
+      config.apis.elevation.synthetic.preset = env.SYNTHETIC_PRESET as SyntheticPreset;
+    }
+    
+    if (env.LOCAL_DEM_DIR) {
+      config.apis.elevation.localDemDir = env.LOCAL_DEM_DIR;
+    }
+    
+    if (env.ELEVATION_TILE_URL) {
+      config.apis.elevation.tileUrlTemplate = env.ELEVATION_TILE_URL;
+    }
+    
+    if (env.ELEVATION_TILE_ENCODING === "mapbox" || env.ELEVATION_TILE_ENCODING === "terrarium") {
+      config.apis.elevation.tileEncoding = env.ELEVATION_TILE_ENCODING;
+    }
+    
+    if (env.ELEVATION_SAMPLING === "bilinear" || env.ELEVATION_SAMPLING === "bicubic") {
+      config.apis.elevation.sampling = env.ELEVATION_SAMPLING;
+    }
+    
+    if (env.ELEVATION_MAX_CONCURRENT) {
+      config.apis.elevation.maxConcurrentRequests = parseInt(env.ELEVATION_MAX_CONCURRENT, 10);
+    }
+    
+    if (env.ELEVATION_TILE_ZOOM) {
+      config.apis.elevation.tileZoom = parseInt(env.ELEVATION_TILE_ZOOM, 10);
+    }
+    
+    if (env.ELEVATION_PROVIDERS) {
+      // Credentials per provider, e.g. MAPBOX_API_KEY or RASTER_DEM_BASE_URL
+      config.apis.elevation.providers = env.ELEVATION_PROVIDERS.split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name.length > 0)
+        .map((name) => {
+          const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+          return {
+            name,
+            apiKey: env[`${prefix}_API_KEY`] || undefined,
+            baseUrl: env[`${prefix}_BASE_URL`] || undefined,
+          };
+        });
+    }
+    
+    if (env.GEOCODING_BASE_URL) {
+      config.apis.geocoding.baseUrl = env.GEOCODING_BASE_URL;
+    }
+    
+    if (env.GEOCODING_USER_AGENT) {
+      config.apis.geocoding.userAgent = env.GEOCODING_USER_AGENT;
+    }
+    
+    if (env.GEOCODING_EMAIL) {
+      config.apis.geocoding.email = env.GEOCODING_EMAIL;
+    }
+    
+    if (env.GEOCODING_OFFLINE === "off" || env.GEOCODING_OFFLINE === "fallback" || env.GEOCODING_OFFLINE === "primary") {
+      config.apis.geocoding.offline = env.GEOCODING_OFFLINE;
+    }
+    
+    if (env.GEOCODING_OFFLINE_DIR) {
+      config.apis.geocoding.offlineDataDir = env.GEOCODING_OFFLINE_DIR;
+    }
+    
+    if (env.FEATURES_SOURCE === "off" || env.FEATURES_SOURCE === "overpass" || env.FEATURES_SOURCE === "local") {
+      config.apis.features.source = env.FEATURES_SOURCE;
+    }
+    
+    if (env.OVERPASS_BASE_URL) {
+      config.apis.features.baseUrl = env.OVERPASS_BASE_URL;
+    }
+    
+    if (env.FEATURES_DIR) {
+      config.apis.features.localDataDir = env.FEATURES_DIR;
+    }
+    
+    if (env.HTTP_FIXTURES === "record" || env.HTTP_FIXTURES === "replay") {
+      config.system.httpFixtures.mode = env.HTTP_FIXTURES;
+    }
+    
+    if (env.HTTP_FIXTURES_DIR) {
+      config.system.httpFixtures.directory = env.HTTP_FIXTURES_DIR;
+    }
+    
     if (env.BLUESKY_HANDLE) {
       config.bluesky.handle = env.BLUESKY_HANDLE;
     }
@@ -137,6 +373,27 @@ export async function setupConfig(): Promise<Config> {
       config.bluesky.appPassword = env.BLUESKY_APP_PASSWORD;
     }
     
+    if (env.ACKNOWLEDGE_REQUESTS) {
+      config.bluesky.acknowledgeRequests = env.ACKNOWLEDGE_REQUESTS === "true";
+    }
+    
+    if (env.REQUEST_DEDUPE_RADIUS_KM) {
+      config.bluesky.requestQueue.dedupeRadiusKm = parseFloat(env.REQUEST_DEDUPE_RADIUS_KM);
+    }
+    
+    if (env.REQUEST_MAX_OPEN_PER_USER) {
+      config.bluesky.requestQueue.maxOpenPerUser = parseInt(env.REQUEST_MAX_OPEN_PER_USER, 10);
+    }
+    
+    if (env.POST_LANGUAGES) {
+      const languages = env.POST_LANGUAGES.split(",")
+        .map((language) => language.trim().toLowerCase())
+        .filter((language) => language.length > 0);
+      if (languages.length > 0) {
+        config.bluesky.languages = languages;
+      }
+    }
+    
     // Create cache directory if it doesn't exist
     const cacheDir = path.resolve(config.system.cacheDir);
     try {
@@ -8,5 +8,6 @@ export { parse } from "std/flags/mod.ts";
 
 export { load as loadEnv } from "dotenv";
 export * as canvas from "canvas";
+export { fromArrayBuffer as geotiffFromArrayBuffer, fromFile as geotiffFromFile } from "geotiff";
 
 export type { Image } from "canvas"; 
\ No newline at end of file
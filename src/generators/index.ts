@@ -1,9 +1,17 @@
 import { Config } from "../config/config.ts";
-import { Coordinate, generateRandomCoordinate, getCoordinateArea, generateCoordinateGrid } from "../utils/coordinates.ts";
+import {
+  calculateBoundingBox,
+  Coordinate,
+  generateRandomCoordinate,
+  getCoordinateArea,
+  generateCoordinateGrid,
+  getGridSpacing,
+} from "../utils/coordinates.ts";
 import { checkCoordinateIsWater, WaterDetectionResult } from "../utils/water-detection.ts";
 import { generateReliefFromCoordinate } from "./relief-generator.ts"; 
 
-import { fetchElevation } from "../api/elevation.ts";
+import { fetchElevationBatch, getBathymetryConfig, prefetchElevationGrid } from "../api/elevation.ts";
+import { SYNTHETIC_PRESETS, SyntheticPreset } from "../api/providers/index.ts";
 
 export interface GenerationResult {
   filePath: string;
@@ -18,10 +26,14 @@ export interface GenerationResult {
     min: number;
     max: number;
     avg: number;
+    filledPercentage: number; // Share of grid cells interpolated from neighbours
   };
   style: string;
   timestamp: string;
   terrainType: string;
+  elevationProvider: string; // Provider(s) the elevation data came from, for attribution
+  bathymetry: boolean; // Seafloor of a water location, elevations are mostly negative
+  synthetic?: { seed: number; preset: SyntheticPreset }; // Set for imaginary reliefs
 }
 
 /**
@@ -49,9 +61,14 @@ export async function generateRandomRelief(
     
     console.log(`Area validation passed: ${areaValidation.summary}`);
     
-    // 3. Generate relief (skip individual water check since we already validated the area)
+    // Start downloading the render's tiles while the generator sets up; the grid fetch joins them
+    const bbox = calculateBoundingBox(getCoordinateArea(centerCoord, config.geographic.areaSize));
+    prefetchElevationGrid(bbox, config.geographic.resolution, areaValidation.seafloor ? getBathymetryConfig(config) : config);
+    
+    // 3. Generate relief (skip individual water check since we already validated the area,
+    // unless the seafloor is wanted: the check is what switches to the bathymetry provider)
     try {
-      return await generateReliefFromCoordinate(centerCoord, config, style, undefined, true); // skipWaterCheck = true
+      return await generateReliefFromCoordinate(centerCoord, config, style, undefined, !areaValidation.seafloor);
     } catch (error) {
       // If the error is about water detection, try again with a different location
       if (error instanceof Error && error.message.includes("mostly water")) {
@@ -66,6 +83,32 @@ export async function generateRandomRelief(
   }
 }
 
+/**
+ * Generate a relief of imaginary terrain from the synthetic provider;
+ * without a seed or preset, random ones are picked
+ */
+export async function generateImaginaryRelief(
+  config: Config,
+  options: { seed?: number; preset?: SyntheticPreset; style?: string } = {}
+): Promise<GenerationResult> {
+  const presets = Object.keys(SYNTHETIC_PRESETS) as SyntheticPreset[];
+  const seed = options.seed ?? Math.floor(Math.random() * 1000000);
+  const preset = options.preset ?? presets[Math.floor(Math.random() * presets.length)];
+  console.log(`Generating imaginary relief (seed ${seed}, ${preset} terrain)...`);
+  
+  const syntheticConfig: Config = {
+    ...config,
+    apis: {
+      ...config.apis,
+      elevation: { ...config.apis.elevation, provider: "synthetic", providers: undefined, synthetic: { seed, preset } },
+    },
+  };
+  
+  // Synthetic terrain depends on position too, so a fixed center lets the seed alone reproduce it
+  const result = await generateReliefFromCoordinate({ latitude: 0, longitude: 0 }, syntheticConfig, options.style, undefined, true);
+  return { ...result, synthetic: { seed, preset } };
+}
+
 /**
  * Area validation,water detection and elevation range checking
  */
@@ -78,41 +121,39 @@ async function validateAreaForRelief(
   summary?: string;
   waterPercentage?: number;
   elevationRange?: number;
+  seafloor?: boolean; // Center is on water and bathymetry mode will render it
 }> {
   const sampleArea = getCoordinateArea(centerCoord, config.geographic.areaSize * 0.5);
   const sampleGrid = generateCoordinateGrid(sampleArea, 4); // Single 4x4 grid for both checks
   
-  const results = await Promise.all(
-    sampleGrid.map(async (coord: Coordinate) => {
-      const [waterResult, elevationResponse] = await Promise.all([
-        checkCoordinateIsWater(coord.latitude, coord.longitude, config),
-        fetchElevation(coord.latitude, coord.longitude, config)
-      ]);
-      
-      return {
-        coordinate: coord,
-        waterResult,
-        elevationData: elevationResponse.status === "success" ? elevationResponse.data[0] : null
-      };
-    })
-  );
-  
-  // Analyze water coverage
-  const waterResults = results.map((r) => r.waterResult);
-  const waterPointCount = waterResults.filter((result: WaterDetectionResult) => result.isWater).length;
-  const waterPercentage = (waterPointCount / waterResults.length) * 100;
-  
   // Check center point specifically (more strict for center)
   const centerWaterResult = await checkCoordinateIsWater(centerCoord.latitude, centerCoord.longitude, config);
-  if (centerWaterResult.isWater) {
+  const seafloor = centerWaterResult.isWater && config.apis.elevation.bathymetry.enabled;
+  if (centerWaterResult.isWater && !seafloor) {
     return {
       isValid: false,
       reason: `Center coordinate is on water (method: ${centerWaterResult.method}, confidence: ${(centerWaterResult.confidence * 100).toFixed(1)}%)`
     };
   }
   
-  // Reject if area is mostly water (stricter threshold)
-  if (waterPercentage > 85) { 
+  // Seafloor depths only come from the bathymetry provider
+  const elevationConfig = seafloor ? getBathymetryConfig(config) : config;
+  
+  const [waterResults, elevationResponse] = await Promise.all([
+    Promise.all(
+      sampleGrid.map((coord: Coordinate) =>
+        checkCoordinateIsWater(coord.latitude, coord.longitude, config)
+      )
+    ),
+    fetchElevationBatch(sampleGrid, elevationConfig, { gridSpacing: getGridSpacing(sampleArea.size, 4) })
+  ]);
+  
+  // Analyze water coverage
+  const waterPointCount = waterResults.filter((result: WaterDetectionResult) => result.isWater).length;
+  const waterPercentage = (waterPointCount / waterResults.length) * 100;
+  
+  // Reject if area is mostly water (stricter threshold), unless the seafloor is what we render
+  if (!seafloor && waterPercentage > 85) { 
     return {
       isValid: false,
       reason: `Area is mostly water (${waterPercentage.toFixed(1)}% water coverage)`,
@@ -121,8 +162,8 @@ async function validateAreaForRelief(
   }
   
   // Analyze elevation range
-  const validElevations = results
-    .map((r) => r.elevationData?.elevation)
+  const validElevations = elevationResponse.data
+    .map((point) => point.elevation)
     .filter((e): e is number => e !== null && e !== undefined);
   
   if (validElevations.length < 3) {
@@ -146,9 +187,10 @@ async function validateAreaForRelief(
   
   return {
     isValid: true,
-    summary: `${waterPercentage.toFixed(1)}% water, ${elevationRange}m elevation range`,
+    summary: `${waterPercentage.toFixed(1)}% water, ${elevationRange}m elevation range${seafloor ? " (seafloor)" : ""}`,
     waterPercentage,
-    elevationRange
+    elevationRange,
+    seafloor
   };
 }
 
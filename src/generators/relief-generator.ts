@@ -1,13 +1,23 @@
 import { Config } from "../config/config.ts";
-import { Coordinate, getCoordinateArea, calculateBoundingBox, generateCoordinateGrid } from "../utils/coordinates.ts";
-import { fetchElevation, ElevationData, getRequestStats, getTileCoordinates } from "../api/elevation.ts";
+import { Coordinate, getCoordinateArea, calculateBoundingBox, generateBoundingBoxGrid } from "../utils/coordinates.ts";
+import { repairElevationGrid } from "../utils/elevation-grid.ts";
+import {
+  checkGridQuota,
+  fetchElevationGrid,
+  ElevationData,
+  getBathymetryConfig,
+  getRequestStats,
+  resolveElevationProvider,
+} from "../api/elevation.ts";
 import { checkCoordinateIsWater } from "../utils/water-detection.ts";
 import { generateRelief } from "./relief.ts";
 import { saveCanvasToFile } from "./canvas.ts";
-import { path, delay } from "../deps.ts";
+import { path } from "../deps.ts";
 import { RenderOptions } from "./renderers/types.ts";
 import { GenerationResult } from "./index.ts";
 
+const MAX_FILLED_PERCENTAGE = 50; // Renders with more interpolated than real cells are refused
+
 /**
  * Generate a relief image from a specific coordinate
  */
@@ -21,13 +31,22 @@ export async function generateReliefFromCoordinate(
   try {
     console.log(`Generating relief for coordinates: ${centerCoord.latitude}, ${centerCoord.longitude}`);
     
+    // Water locations are only rendered in bathymetry mode, from the bathymetry provider
+    let elevationConfig = config;
+    let bathymetry = false;
+    
     if (!skipWaterCheck) {
       // 1. Verify the coordinate is on land before proceeding with full grid
       const waterResult = await checkCoordinateIsWater(centerCoord.latitude, centerCoord.longitude, config);
-      if (waterResult.isWater) {
+      if (waterResult.isWater && !config.apis.elevation.bathymetry.enabled) {
         console.log(`Coordinate is on water (method: ${waterResult.method}, confidence: ${(waterResult.confidence * 100).toFixed(1)}%). Cannot generate relief.`);
         throw new Error("Cannot generate relief for water location. Please choose a land location.");
       }
+      if (waterResult.isWater) {
+        console.log(`Coordinate is on water (method: ${waterResult.method}), rendering the seafloor from ${config.apis.elevation.bathymetry.provider}`);
+        elevationConfig = getBathymetryConfig(config);
+        bathymetry = true;
+      }
     } else {
       console.log("Skipping water check (already validated)");
     }
@@ -40,110 +59,57 @@ export async function generateReliefFromCoordinate(
     const bbox = calculateBoundingBox(area);
     console.log("Bounding box:", bbox);
     
-    // 4. Generate grid of coordinates to sample
+    // 4. Grid resolution to sample
     // Allow custom resolution if provided
     const resolution = customGridResolution || config.geographic.resolution; 
-    const grid = generateCoordinateGrid(area, resolution);
-    console.log(`Generated grid with ${grid.length} points`);
+    console.log(`Sampling a ${resolution}x${resolution} grid`);
     
-    // 5. Fetch elevation data for all grid points
-    console.log("Fetching elevation data...");
-    const elevationData: ElevationData[] = [];
-    
-    // For Mapbox provider, sort coordinates by tile to maximize cache hits
-    if (config.apis.elevation.provider.toLowerCase() === "mapbox") {
-      // Pre-sort coordinates by tile to maximize cache efficiency
-      const zoom = 14; // Same zoom level used in elevation.ts
-      const sortedGrid = [...grid].sort((a, b) => {
-        const tileA = getTileCoordinates(a.latitude, a.longitude, zoom);
-        const tileB = getTileCoordinates(b.latitude, b.longitude, zoom);
-        
-        // First sort by tile Y, then by tile X
-        if (tileA.y !== tileB.y) return tileA.y - tileB.y;
-        return tileA.x - tileB.x;
-      });
-      
-      console.log("Sorted coordinates by tile for optimal caching");
-      
-      // Replace grid with sorted grid
-      grid.length = 0;
-      grid.push(...sortedGrid);
+    // Refuse up front rather than running out of quota halfway through the grid
+    const quota = await checkGridQuota(bbox, resolution, elevationConfig);
+    if (!quota.allowed) {
+      throw new Error(`Elevation quota exceeded: this render needs ${quota.required} requests but only ${quota.remaining} are left today`);
     }
     
-    // Process one coordinate at a time with strict delay between requests
-    // This respects API rate limits
-    for (let i = 0; i < grid.length; i++) {
-      const coord = grid[i];
-      let success = false;
-      let attempts = 0;
-      const maxAttempts = 2; // Only retry once to avoid hitting daily limits
-      let wasFromCache = false;
-      
-      //console.log(`- Fetched point ${i+1}/${grid.length}: ${coord.latitude}, ${coord.longitude}`);
-      
-      while (!success && attempts < maxAttempts) {
-        try {
-          // Only apply delay for non-first attempts or non-cached previous requests
-          if (attempts > 0) {
-            console.log(`Retry attempt ${attempts}...`);
-            // Wait longer on retry
-            await delay(2000);
-          } else if (i > 0 && !wasFromCache) {
-            // Apply delay between coordinates if the previous request wasn't from cache
-            if (config.apis.elevation.provider.toLowerCase() !== "mapbox") {
-              await delay(1000);
-            }
-          }
-          
-          const response = await fetchElevation(coord.latitude, coord.longitude, config);
-          wasFromCache = response.fromCache === true;
-          
-          if (response.status === "success" && response.data.length > 0) {
-            elevationData.push(...response.data);
-            success = true;
-            // Only log non-cached requests or errors
-            if (!wasFromCache) {
-              //console.log(`- Point ${i + 1}: ${response.data[0].elevation}m`);
-            }
-          } else if (response.rateLimited) {
-            // Rate limit hit, wait longer
-            console.log(`Rate limit hit, waiting longer...`);
-            await delay(5000); // 5 seconds on rate limit
-            attempts++;
-          } else if (response.isWater) {
-            // It's water, don't retry
-            console.log(`Location is on water, skipping`);
-            success = true;
-          } else {
-            // Other error
-            console.warn(` ✗ Error fetching elevation: ${response.error}`);
-            success = true; // Don't retry non-rate-limit errors
-          }
-        } catch (err) {
-          console.error(` ✗ Error in elevation fetch: ${err}`);
-          attempts++;
-          await delay(2000);
-        }
-      }
+    // 5. Fetch elevation data for the whole grid
+    console.log("Fetching elevation data...");
+    const samples: ElevationData[] = [];
+    let elevationProvider = "unknown";
+    
+    const response = await fetchElevationGrid(bbox, resolution, elevationConfig);
+    if (response.status === "success") {
+      samples.push(...response.data);
+      elevationProvider = response.provider || elevationProvider;
+      console.log(`Elevation data from ${elevationProvider}`);
+    } else {
+      console.warn(` ✗ Error fetching elevation: ${response.error}`);
     }
     
-    console.log(`Retrieved elevation data for ${elevationData.length} points`);
+    console.log(`Retrieved elevation data for ${samples.length} points`);
+    
+    // Show cache statistics
+    const provider = resolveElevationProvider(elevationConfig);
+    const stats = getRequestStats(provider.name);
+    if (provider.capabilities.kind === "tile") {
+      console.log(`${provider.name} cache status: ${stats.cachedTiles} tiles in cache`);
+    }
+    console.log(`Elevation cache: ${stats.cacheHits} hits (${stats.diskCacheHits} from disk), ${stats.cacheMisses} misses, ${stats.diskCacheEntries} entries on disk`);
     
-    // For Mapbox, show cache statistics
-    if (config.apis.elevation.provider.toLowerCase() === "mapbox") {
-      const stats = getRequestStats();
-      console.log(`Mapbox cache status: ${stats.cachedTiles} tiles in cache`);
+    // Fill NoData holes and spikes from neighbouring cells
+    const repaired = repairElevationGrid(generateBoundingBoxGrid(bbox, resolution), samples, resolution);
+    const elevationData = repaired.data;
+    if (repaired.filledCount > 0) {
+      console.log(`Filled ${repaired.filledCount} cells (${repaired.missingCount} missing, ${repaired.spikeCount} spikes, ${repaired.filledPercentage.toFixed(1)}% of the grid)`);
     }
     
     // Make sure we have enough data points
-    if (elevationData.length < 3) {
+    if (elevationData.length < 3 || repaired.filledPercentage > MAX_FILLED_PERCENTAGE) {
       throw new Error("Not enough elevation data points collected. Try again later.");
     }
     
     const elevations = elevationData.map(d => d.elevation);
     
-    const minElevation = Math.min(...elevations);
-    const maxElevation = Math.max(...elevations);
+    const minElevation = elevations.reduce((min, val) => Math.min(min, val), Infinity);
+    const maxElevation = elevations.reduce((max, val) => Math.max(max, val), -Infinity);
     const avgElevation = elevations.reduce((sum, val) => sum + val, 0) / elevations.length;
     
     // 6. Generate relief image
@@ -187,10 +153,13 @@ export async function generateReliefFromCoordinate(
         min: minElevation,
         max: maxElevation,
         avg: avgElevation,
+        filledPercentage: repaired.filledPercentage,
       },
       style: selectedStyle,
       timestamp,
       terrainType: renderOptions.terrainType || "unknown",
+      elevationProvider,
+      bathymetry,
     };
   } catch (error) {
     console.error("Error generating relief:", error);
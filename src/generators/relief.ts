@@ -1,7 +1,7 @@
-import { ElevationData, fetchElevation } from "../api/elevation.ts";
+import { ElevationData, fetchElevationBatch } from "../api/elevation.ts";
 import { Config } from "../config/config.ts";
 import { canvas } from "../deps.ts";
-import { Coordinate, getCoordinateArea, generateCoordinateGrid } from "../utils/coordinates.ts";
+import { Coordinate, getCoordinateArea, generateCoordinateGrid, getGridSpacing } from "../utils/coordinates.ts";
 import { createCanvas } from "./canvas.ts";
 import { createCoordinateTransformer } from "./coordinates.ts";
 import { DotGridRenderer } from "./renderers/dotgrid.ts";
@@ -22,7 +22,7 @@ function processElevationData(
   
   // Find min/max elevations for normalization
   let minElevation = Number.MAX_VALUE;
-  let maxElevation = Number.MIN_VALUE;
+  let maxElevation = -Number.MAX_VALUE; // Not Number.MIN_VALUE, which is positive
   
   for (const point of dataArray) {
     minElevation = Math.min(minElevation, point.elevation);
@@ -50,6 +50,20 @@ function processElevationData(
   });
 }
 
+/**
+ * Normalized elevation of 0m, or undefined if the points are all above or all below it
+ */
+function getSeaLevel(points: ElevationPoint[]): number | undefined {
+  const elevations = points.map((point) => point.elevation);
+  const minElevation = elevations.reduce((min, value) => Math.min(min, value), Infinity);
+  const maxElevation = elevations.reduce((max, value) => Math.max(max, value), -Infinity);
+  
+  if (minElevation >= 0 || maxElevation <= 0) {
+    return undefined;
+  }
+  return -minElevation / (maxElevation - minElevation);
+}
+
 /**
  * Generate a relief visualization from elevation data
  */
@@ -72,6 +86,12 @@ export async function generateRelief(
   // Transform and normalize elevation data
   const points = processElevationData(elevationData, transformer);
   
+  // Renderers mark the coastline when the data goes from seafloor to land
+  const seaLevel = getSeaLevel(points);
+  if (seaLevel !== undefined) {
+    options.seaLevel = seaLevel;
+  }
+  
   // Create appropriate renderer based on style
   let renderer;
   switch (options.style) {
@@ -106,13 +126,8 @@ export async function checkElevationRange(
   const sampleGrid = generateCoordinateGrid(sampleArea, 4);
   
   // Fetch elevation data for sample points
-  const elevationData: ElevationData[] = [];
-  for (const coord of sampleGrid) {
-    const response = await fetchElevation(coord.latitude, coord.longitude, config);
-    if (response.status === "success" && response.data.length > 0) {
-      elevationData.push(...response.data);
-    }
-  }
+  const response = await fetchElevationBatch(sampleGrid, config, { gridSpacing: getGridSpacing(sampleArea.size, 4) });
+  const elevationData: ElevationData[] = response.status === "success" ? response.data : [];
   
   if (elevationData.length === 0) {
     return { hasSufficientRange: false, minElevation: 0, maxElevation: 0 };
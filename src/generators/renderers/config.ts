@@ -42,6 +42,13 @@ export const MARKER_PEN_CONFIG = {
   color: "rgba(0, 133, 255, 1.0)"
 };
 
+// Sea level marker, drawn when a relief crosses 0m
+export const SEA_LEVEL_CONFIG = {
+  color: "rgba(0, 133, 255, 0.8)",
+  lineWidth: 1.5,
+  dash: [6, 6]
+};
+
 // Constants for terrain classification
 export const TERRAIN_THRESHOLDS = {
   flat: 30,
@@ -1,8 +1,10 @@
 import { canvas } from "../../deps.ts";
 import { ElevationPoint, RenderOptions, Renderer } from "./types.ts";
+import { SEA_LEVEL_CONFIG } from "./config.ts";
 
 /**
- * Render a grid of dots where circle radius represents elevation
+ * Render a grid of dots where circle radius represents elevation;
+ * dots below sea level are drawn as outlines
  */
 export class DotGridRenderer implements Renderer {
   render(
@@ -65,8 +67,14 @@ export class DotGridRenderer implements Renderer {
           
           ctx.beginPath();
           ctx.arc(x, y, radius, 0, Math.PI * 2, false);
-          ctx.fillStyle = mainColor;
-          ctx.fill();
+          if (options.seaLevel !== undefined && closestPoint.normalizedElevation < options.seaLevel) {
+            ctx.strokeStyle = SEA_LEVEL_CONFIG.color;
+            ctx.lineWidth = SEA_LEVEL_CONFIG.lineWidth * scaleFactor;
+            ctx.stroke();
+          } else {
+            ctx.fillStyle = mainColor;
+            ctx.fill();
+          }
         }
       }
     }
@@ -1,5 +1,6 @@
 import { canvas } from "../../deps.ts";
 import { ElevationPoint, RenderOptions, Renderer } from "./types.ts";
+import { SEA_LEVEL_CONFIG } from "./config.ts";
 
 /**
  * Render graph lines representing elevation
@@ -74,6 +75,24 @@ export class GraphRenderer implements Renderer {
       }
     }
     
+    // Dashed sea level line across the chart
+    if (options.seaLevel !== undefined) {
+      const seaY = padding + ((height - padding * 2) * (1 - options.seaLevel));
+      
+      ctx.strokeStyle = SEA_LEVEL_CONFIG.color;
+      ctx.lineWidth = SEA_LEVEL_CONFIG.lineWidth * scaleFactor;
+      ctx.setLineDash(SEA_LEVEL_CONFIG.dash.map((length) => length * scaleFactor));
+      ctx.beginPath();
+      ctx.moveTo(padding, seaY);
+      ctx.lineTo(width - padding, seaY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      
+      ctx.fillStyle = SEA_LEVEL_CONFIG.color;
+      ctx.textAlign = "right";
+      ctx.fillText("0m", padding - 5, seaY + 4);
+    }
+    
     // Draw vertical elevation markers to represent the actual data points
     ctx.lineWidth = 1;
     ctx.strokeStyle = "rgba(255, 255, 255, 0.4)";
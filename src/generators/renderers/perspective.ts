@@ -3,7 +3,7 @@ import { ElevationPoint, RenderOptions, Renderer, RenderParams, TerrainAnalysis
 import { analyzeTerrain, getTerrainRenderParams } from "./helpers/terrain.ts";
 import { SimpleNoise } from "./helpers/noise.ts";
 import { Point, drawContourLineWithMarkerEffect } from "./helpers/contour-drawing.ts";
-import { PERSPECTIVE_CONFIG } from "./config.ts";
+import { PERSPECTIVE_CONFIG, SEA_LEVEL_CONFIG } from "./config.ts";
 import { BASE_RENDER_SIZE } from '../../config/config.ts';
 
 /**
@@ -22,6 +22,7 @@ export class PerspectiveRenderer implements Renderer {
   private horizonY = 0;
   private smoothedGrid: number[][] = [];
   private getElevation: (nx: number, ny: number) => number = () => 0;
+  private seaLevel: number | undefined; // Sea level in smoothed grid units
   
   private noise: SimpleNoise;
   
@@ -43,7 +44,7 @@ export class PerspectiveRenderer implements Renderer {
     const terrain = this.analyzeTerrain(points, options);
     
     // Phase 2: Prepare elevation grid
-    this.prepareElevationGrid(points, terrain);
+    this.prepareElevationGrid(points, terrain, options.seaLevel);
     
     // Phase 3: Draw contour lines
     this.drawContourLines(terrain, options);
@@ -106,7 +107,8 @@ export class PerspectiveRenderer implements Renderer {
    */
   private prepareElevationGrid(
     points: ElevationPoint[], 
-    { terrain, renderParams }: { terrain: TerrainAnalysis; renderParams: RenderParams }
+    { terrain, renderParams }: { terrain: TerrainAnalysis; renderParams: RenderParams },
+    seaLevel?: number
   ): void {
     if (points.length === 0) return;
 
@@ -185,8 +187,15 @@ export class PerspectiveRenderer implements Renderer {
       }
     }
     
-    // Apply normalization
+    // Sea level goes through the same peak emphasis and normalization as the grid
     const elevRange = maxElev - minElev;
+    this.seaLevel = seaLevel !== undefined && elevRange > 0
+      ? PERSPECTIVE_CONFIG.elevationRange.min +
+        (PERSPECTIVE_CONFIG.elevationRange.max - PERSPECTIVE_CONFIG.elevationRange.min) *
+        ((Math.pow(seaLevel, renderParams.peakEmphasis) - minElev) / elevRange)
+      : undefined;
+    
+    // Apply normalization
     if (elevRange > 0) {
       const targetMin = PERSPECTIVE_CONFIG.elevationRange.min;
       const targetRange = PERSPECTIVE_CONFIG.elevationRange.max - targetMin;
@@ -236,6 +245,9 @@ export class PerspectiveRenderer implements Renderer {
           scaleFactor,
           shouldMask: lastDrawnLineIndex !== null
         });
+        if (contour.seaSurface) {
+          this.drawSeaSurface(contour.seaSurface, scaleFactor);
+        }
         lastDrawnLineIndex = i;
       }
     }
@@ -298,7 +310,7 @@ export class PerspectiveRenderer implements Renderer {
     terrain: TerrainAnalysis,
     amplification: number,
     scaleFactor = 1
-  ): { points: Point[]; baseY: number } {
+  ): { points: Point[]; baseY: number; seaSurface?: Point[][] } {
     // Calculate progress (0 to 1) from horizon to foreground
     const t = i / (renderParams.numLines - 1);
     
@@ -341,6 +353,11 @@ export class PerspectiveRenderer implements Renderer {
     const contourPoints: Point[] = [];
     const centerX = this.width / 2;
     
+    // Flat water surface over the submerged stretches of the line
+    const seaY = this.seaLevel !== undefined ? Math.max(this.padding, lineY - this.seaLevel * rowAmplification) : 0;
+    const seaSurface: Point[][] = [];
+    let seaRun: Point[] | null = null;
+    
     for (let j = 0; j <= numSegments; j++) {
       // Calculate horizontal position with perspective compression
       const xProgress = j / numSegments;
@@ -359,9 +376,39 @@ export class PerspectiveRenderer implements Renderer {
       const finalY = Math.max(this.padding, lineY - elevationOffset);
       
       contourPoints.push({ x: perspectiveX, y: finalY });
+      
+      if (this.seaLevel !== undefined && elevation < this.seaLevel) {
+        if (!seaRun) {
+          seaRun = [];
+          seaSurface.push(seaRun);
+        }
+        seaRun.push({ x: perspectiveX, y: seaY });
+      } else {
+        seaRun = null;
+      }
+    }
+    
+    return { points: contourPoints, baseY: lineY, seaSurface: seaSurface.length > 0 ? seaSurface : undefined };
+  }
+
+  /**
+   * Draw the dashed water surface above the submerged parts of a contour line
+   */
+  private drawSeaSurface(seaSurface: Point[][], scaleFactor: number): void {
+    this.ctx.save();
+    this.ctx.strokeStyle = SEA_LEVEL_CONFIG.color;
+    this.ctx.lineWidth = SEA_LEVEL_CONFIG.lineWidth * scaleFactor;
+    this.ctx.setLineDash(SEA_LEVEL_CONFIG.dash.map((length) => length * scaleFactor));
+    
+    for (const run of seaSurface) {
+      if (run.length < 2) continue;
+      this.ctx.beginPath();
+      this.ctx.moveTo(run[0].x, run[0].y);
+      this.ctx.lineTo(run[run.length - 1].x, run[run.length - 1].y);
+      this.ctx.stroke();
     }
     
-    return { points: contourPoints, baseY: lineY };
+    this.ctx.restore();
   }
 
   /**
@@ -18,6 +18,7 @@ export interface RenderOptions {
   contourWidth?: number;
   gridResolution?: number;
   terrainType?: string;    // Auto-detected terrain type
+  seaLevel?: number;       // Normalized elevation of 0m, set when the data crosses sea level
   showDebugText?: boolean; // Whether to hide debug information
 }
 
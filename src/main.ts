@@ -1,9 +1,16 @@
 import { log } from "./deps.ts";
 import { setupConfig } from "./config/config.ts";
-import { generateRandomRelief, generateReliefFromCoordinate } from "./generators/index.ts";
+import { generateImaginaryRelief, generateRandomRelief, generateReliefFromCoordinate } from "./generators/index.ts";
+import { SYNTHETIC_PRESETS, SyntheticPreset } from "./api/providers/index.ts";
 import { BlueskyBot, isValidCoordinate } from "./bot/bluesky.ts";
+import { InMemoryBot } from "./bot/memory-bot.ts";
+import { QueuedRequest, RequestQueue } from "./bot/request-queue.ts";
+import type { CoordinateRequest, ReliefBot } from "./bot/types.ts";
 import { reverseGeocode } from "./api/geocoding.ts";
-import { parse } from "./deps.ts";
+import { formatElevationRange, formatMeters, getPostTemplate } from "./bot/post-templates.ts";
+import { findNearestLand } from "./utils/water-detection.ts";
+import { Config } from "./config/config.ts";
+import { parse, path } from "./deps.ts";
 
 async function main() {
   try {
@@ -11,21 +18,34 @@ async function main() {
     
     // Parse command line arguments
     const args = parse(Deno.args, {
-      boolean: ["skip-post"],
-      string: ["coords"],
+      boolean: ["skip-post", "offline", "imaginary", "bathymetry"],
+      string: ["coords", "seed", "preset"],
       default: { 
-        "skip-post": false
+        "skip-post": false,
+        "offline": false,
+        "imaginary": false,
+        "bathymetry": false
       },
     });
     
     // Setup configuration
     const config = await setupConfig();
     
+    if (args.bathymetry) {
+      config.apis.elevation.bathymetry.enabled = true;
+    }
+    
+    // Offline runs answer every API call from recorded fixtures and never touch Bluesky
+    if (args.offline) {
+      config.system.httpFixtures.mode = "replay";
+      console.log(`Offline mode: replaying HTTP fixtures from ${config.system.httpFixtures.directory}`);
+    }
+    
     // Initialize logger
     log.info("Bot initialized");
     
     // Check for coordinate simulation from CLI args
-    let simulatedCoordinates: { latitude: number; longitude: number; author: string } | null = null;
+    let simulatedCoordinates: CoordinateRequest | null = null;
     
     if (args.coords) {
       const coordParts = args.coords.split(',');
@@ -58,30 +78,90 @@ async function main() {
     
     // Initialize Bluesky bot
     log.info("Initializing Bluesky bot...");
-    if (!config.bluesky.handle || !config.bluesky.appPassword) {
-        throw new Error("Missing required Bluesky credentials in config");
+    let bot: ReliefBot;
+    if (args.offline) {
+      bot = new InMemoryBot();
+    } else {
+      if (!config.bluesky.handle || !config.bluesky.appPassword) {
+          throw new Error("Missing required Bluesky credentials in config");
+      }
+      bot = new BlueskyBot(
+        config.bluesky.handle,
+        config.bluesky.appPassword,
+        path.join(config.system.cacheDir, "notification-cursor.json")
+      );
     }
-    const bot = new BlueskyBot(config.bluesky.handle, config.bluesky.appPassword);
     
     // Login to Bluesky
     console.log("Logging in to Bluesky...");
     await bot.login();
     
-    // Check for coordinate requests
+    // Queue new coordinate requests and pick the next one to render
     let requestedCoordinates = simulatedCoordinates;
-    if (!simulatedCoordinates) {
-      console.log("Checking for coordinate requests in latest post comments...");
-      requestedCoordinates = await bot.getRequestedCoordinates();
+    let queuedRequest: QueuedRequest | null = null;
+    // Offline runs get a queue of their own, and dry runs leave the real one untouched
+    const requestQueue = new RequestQueue(
+      args.offline
+        ? path.join(await Deno.makeTempDir({ prefix: "reliefs-offline-" }), "request-queue.json")
+        : path.join(config.system.cacheDir, "request-queue.json"),
+      config.bluesky.requestQueue,
+      !args["skip-post"]
+    );
+    if (!simulatedCoordinates && !args.imaginary) {
+      console.log("Checking mentions, replies and quotes for coordinate requests...");
+      const { requests, rejected } = await bot.getNewRequests(config);
+      for (const request of requests) {
+        const { result, entry } = await requestQueue.add(request);
+        if (result === "merged") {
+          console.log(`Merged request from @${request.author} into @${entry.author}'s request nearby`);
+        } else if (result === "limited" || result === "duplicate") {
+          console.log(`Rejected request from @${request.author}: ${entry.error}`);
+        }
+      }
+      
+      // Requests that couldn't be read are never queued, explain them right away. The
+      // notifications are only marked read once handled, a dry run leaves them for later.
+      if (!args["skip-post"]) {
+        for (const request of rejected) {
+          if (request.sourceUri) {
+            const replyText = getPostTemplate(config.bluesky.languages[0]).rejected[request.reason]({ handle: request.author });
+            await bot.replyToPost(request.sourceUri, replyText, undefined, config.bluesky.languages);
+          }
+        }
+        await bot.markRequestsRead();
+      }
+      
+      queuedRequest = await requestQueue.next();
+      requestedCoordinates = queuedRequest;
+      console.log(`${(await requestQueue.pending()).length} coordinate requests waiting in the queue`);
+      
+      // Let the requester know right away, once, not again when a crashed run is retried
+      if (queuedRequest?.sourceUri && queuedRequest.attempts === 1 && config.bluesky.acknowledgeRequests && !args["skip-post"]) {
+        const template = getPostTemplate(config.bluesky.languages[0]);
+        await bot.replyToPost(queuedRequest.sourceUri, template.requestReceived(queuedRequest.author), undefined, config.bluesky.languages);
+      }
     }
     
     // Generate relief visualization
     let result;
     let isRequestedLocation = false;
     let requesterHandle = "";
+    let requestedPlaceName = ""; // Name the requester asked for, kept over the reverse-geocoded one
     
-    if (requestedCoordinates) {
+    if (args.imaginary) {
+      if (args.preset && !(args.preset in SYNTHETIC_PRESETS)) {
+        console.error(`Error: Unknown preset '${args.preset}', expected one of: ${Object.keys(SYNTHETIC_PRESETS).join(", ")}`);
+        Deno.exit(1);
+      }
+      
+      result = await generateImaginaryRelief(config, {
+        seed: args.seed ? parseInt(args.seed, 10) : undefined,
+        preset: args.preset as SyntheticPreset | undefined,
+      });
+    } else if (requestedCoordinates) {
       const source = simulatedCoordinates ? "CLI simulation" : `@${requestedCoordinates.author}`;
-      console.log(`Using requested coordinates: ${requestedCoordinates.latitude}, ${requestedCoordinates.longitude} (requested by ${source})`);
+      const place = requestedCoordinates.placeName ? ` for "${requestedCoordinates.placeName}"` : "";
+      console.log(`Using requested coordinates${place}: ${requestedCoordinates.latitude}, ${requestedCoordinates.longitude} (requested by ${source})`);
       
       try {
         result = await generateReliefFromCoordinate(
@@ -90,10 +170,28 @@ async function main() {
         );
         isRequestedLocation = true;
         requesterHandle = requestedCoordinates.author;
+        requestedPlaceName = requestedCoordinates.placeName || "";
+        
+        // Flat land renders as a blank image, post a random relief instead
+        const elevationRange = result.elevationStats.max - result.elevationStats.min;
+        if (!result.bathymetry && elevationRange < config.geographic.minElevationRange) {
+          console.log(`Requested area is too flat (${Math.round(elevationRange)}m of elevation range). Falling back to random generation...`);
+          if (queuedRequest) {
+            await requestQueue.fail(queuedRequest.id, `Elevation range of ${Math.round(elevationRange)}m is too small`, "flat");
+          }
+          result = await generateRandomRelief(config);
+          isRequestedLocation = false;
+          requesterHandle = "";
+          requestedPlaceName = "";
+        }
       } catch (error) {
         // fall back to random generation
         if (error instanceof Error && error.message.includes("water location")) {
           console.log(`Failed to generate relief for requested coordinates (${error.message.toLowerCase()}). Falling back to random generation...`);
+          if (queuedRequest) {
+            const suggestion = await findNearestLand(queuedRequest.latitude, queuedRequest.longitude, config);
+            await requestQueue.fail(queuedRequest.id, error.message, "water", suggestion ?? undefined);
+          }
           result = await generateRandomRelief(config);
           isRequestedLocation = false;
           requesterHandle = "";
@@ -109,38 +207,56 @@ async function main() {
     console.log("\nRelief Generation Result:");
     console.log(`- Style: ${result.style}`);
     console.log(`- Center: ${result.centerCoordinate.latitude}, ${result.centerCoordinate.longitude}`);
-    console.log(`- Elevation Range: ${result.elevationStats.min}m to ${result.elevationStats.max}m`);
+    // The first posting language writes the post, names come in all of them
+    const language = config.bluesky.languages[0];
+    const template = getPostTemplate(language);
+    const elevationRange = formatElevationRange(result.elevationStats.min, result.elevationStats.max, language);
+    console.log(`- ${elevationRange.label}: ${elevationRange.range}${result.bathymetry ? " (seafloor)" : ""}`);
     console.log(`- Image Path: ${result.filePath}`);
     
     log.info("Relief generated");
 
-    console.log("\nFetching location information...");
-    const locationResult = await reverseGeocode(
-      result.centerCoordinate.latitude,
-      result.centerCoordinate.longitude,
-      config
-    );
-    
     // Create a location string based on available data
     let locationString = `${result.centerCoordinate.latitude.toFixed(4)}, ${result.centerCoordinate.longitude.toFixed(4)}`;
     let locationName = "";
+    let nearLine = ""; // "Near: Aiguille Verte (4,122m)"
     
-    if (locationResult.status === "success" && locationResult.data) {
-      const locationData = locationResult.data;
-      locationName = locationData.name || "";
+    if (result.synthetic) {
+      locationString = template.imaginaryLand;
+    } else {
+      console.log("\nFetching location information...");
+      const locationResult = await reverseGeocode(
+        result.centerCoordinate.latitude,
+        result.centerCoordinate.longitude,
+        config,
+        result.boundingBox
+      );
+    
+      if (locationResult.status === "success" && locationResult.data) {
+        const locationData = locationResult.data;
+        locationName = requestedPlaceName || locationData.name || "";
       
-      const locationParts = [];
-      if (locationData.name) locationParts.push(locationData.name);
-      if (locationData.region) locationParts.push(locationData.region);
-      if (locationData.country) locationParts.push(locationData.country);
+        const locationParts = [];
+        if (locationName) locationParts.push(locationName);
+        if (locationData.region) locationParts.push(locationData.region);
+        if (locationData.country) locationParts.push(locationData.country);
       
-      if (locationParts.length > 0) {
-        locationString = locationParts.join(", ");
-      }
+        if (locationParts.length > 0) {
+          locationString = locationParts.join(", ");
+        }
+        
+        const feature = locationData.feature;
+        if (feature && feature.name !== locationName) {
+          nearLine = `\n${template.near}: ${feature.name}${feature.elevation !== undefined ? ` (${formatMeters(feature.elevation, language)})` : ""}`;
+        }
       
-      log.info(`Location identified as: ${locationString}`);
-    } else {
-      console.log("Could not retrieve location name, using coordinates only");
+        log.info(`Location identified as: ${locationString}`);
+      } else if (requestedPlaceName) {
+        locationName = requestedPlaceName;
+        locationString = requestedPlaceName;
+      } else {
+        console.log("Could not retrieve location name, using coordinates only");
+      }
     }
     
     // Create post content with relief information
@@ -148,30 +264,37 @@ async function main() {
     const paddedNumber = renderNumber < 1000 
       ? renderNumber.toString().padStart(3, '0')
       : renderNumber.toString();
+    const coordinates = `${result.centerCoordinate.latitude.toFixed(4)}, ${result.centerCoordinate.longitude.toFixed(4)}`;
+    const preset = result.synthetic ? template.terrainTypes[result.synthetic.preset] ?? result.synthetic.preset : "";
+    const coordinatesLine = result.synthetic
+      ? template.seed(result.synthetic.seed, preset)
+      : `${template.coordinates}: ${coordinates}`;
     let postText = `//\\ Relief #${paddedNumber}
 
-Location: ${locationString}
-Coordinates: ${result.centerCoordinate.latitude.toFixed(4)}, ${result.centerCoordinate.longitude.toFixed(4)}
-Elevation Range: ${result.elevationStats.min}m to ${result.elevationStats.max}m
-Terrain type: ${result.terrainType}`;
+${template.location}: ${locationString}${nearLine}
+${coordinatesLine}
+${elevationRange.label}: ${elevationRange.range}
+${template.terrainType}: ${template.terrainTypes[result.terrainType] ?? result.terrainType}`;
 
     // Add requester attribution if applicable 
-    if (isRequestedLocation && requesterHandle && requesterHandle !== "CLI-simulation") {
-      postText += `\n\nRequested by @${requesterHandle}`;
+    const isAttributed = isRequestedLocation && requesterHandle && requesterHandle !== "CLI-simulation";
+    if (isAttributed) {
+      postText += `\n\n${template.requestedBy(requesterHandle)}`;
     }
 
     postText += `\n\n#ReliefOfTheDay #DataViz #Geography`;
 
     // Create alt text for accessibility
-    let altText = `Relief visualization in ${result.style} style showing elevation data`;
-    if (locationName) {
-      altText += ` from ${locationName}`;
-    }
-    altText += ` at coordinates ${result.centerCoordinate.latitude.toFixed(4)}, ${result.centerCoordinate.longitude.toFixed(4)} with elevation range from ${result.elevationStats.min}m to ${result.elevationStats.max}m.`;
-    
-    if (isRequestedLocation && requesterHandle && requesterHandle !== "CLI-simulation") {
-      altText += ` This location was requested by @${requesterHandle}.`;
-    }
+    const altText = template.altText({
+      style: result.style,
+      seafloor: result.bathymetry,
+      place: locationName || undefined,
+      coordinates: result.synthetic ? undefined : coordinates,
+      imaginary: result.synthetic ? { seed: result.synthetic.seed, preset } : undefined,
+      rangeLabel: elevationRange.label,
+      range: elevationRange.range,
+      requester: isAttributed ? requesterHandle : undefined,
+    });
 
     console.log("\n=== POST CONTENT ===");
     console.log(postText);
@@ -187,7 +310,22 @@ Terrain type: ${result.terrainType}`;
     }
     
     console.log("Posting to Bluesky...");
-    await bot.postWithImage(postText, result.filePath, altText);
+    const reliefPost = await bot.postWithImage(postText, result.filePath, altText, config.bluesky.languages);
+    
+    if (queuedRequest && isRequestedLocation) {
+      await requestQueue.complete(queuedRequest.id, reliefPost);
+      
+      // Answer in each request's own thread, quoting the relief post
+      const requests = [{ author: queuedRequest.author, sourceUri: queuedRequest.sourceUri }, ...queuedRequest.mergedRequests];
+      for (const request of requests) {
+        if (request.sourceUri) {
+          const replyText = template.reliefReady(request.author, requestedPlaceName || locationName || undefined);
+          await bot.replyToPost(request.sourceUri, replyText, reliefPost, config.bluesky.languages);
+        }
+      }
+    }
+    
+    await replyToRejectedRequests(bot, requestQueue, config);
     
     log.info("Bot Bluesky Reliefs completed successfully!");
   } catch (error) {
@@ -196,6 +334,39 @@ Terrain type: ${result.terrainType}`;
   }
 }
 
+/**
+ * Reply once to each rejected or failed request with why it wasn't rendered and
+ * what to try instead. Duplicates of a posted place quote the relief post.
+ */
+async function replyToRejectedRequests(bot: ReliefBot, requestQueue: RequestQueue, config: Config) {
+  const language = config.bluesky.languages[0];
+  const template = getPostTemplate(language);
+  
+  for (const request of await requestQueue.unanswered()) {
+    if (!request.rejection) continue;
+    
+    const previous = request.duplicateOf ? requestQueue.find(request.duplicateOf) : undefined;
+    const suggestion = request.suggestion ?? previous?.suggestion;
+    const details = {
+      suggestion: suggestion ? `${suggestion.latitude.toFixed(4)}, ${suggestion.longitude.toFixed(4)}` : undefined,
+      rendered: Boolean(previous?.reliefPost),
+      maxOpen: config.bluesky.requestQueue.maxOpenPerUser,
+      minElevationRange: formatMeters(config.geographic.minElevationRange, language),
+    };
+    
+    // Others who asked for the same place are told too; a reply that fails isn't retried
+    const requests = [{ author: request.author, sourceUri: request.sourceUri }, ...request.mergedRequests];
+    for (const { author, sourceUri } of requests) {
+      if (sourceUri) {
+        console.log(`Explaining ${request.rejection} request to @${author}`);
+        const replyText = template.rejected[request.rejection]({ handle: author, ...details });
+        await bot.replyToPost(sourceUri, replyText, previous?.reliefPost, config.bluesky.languages);
+      }
+    }
+    await requestQueue.markReplied(request.id);
+  }
+}
+
 if (import.meta.main) {
   main();
 } 
\ No newline at end of file
@@ -1,6 +1,80 @@
-import { setupConfig } from "../config/config.ts";
+import { Config, setupConfig } from "../config/config.ts";
 import { testElevationAPI } from "../api/elevation.ts";
 import { testGeocodingAPI as testNominatimAPI } from "../api/geocoding.ts";
+import { reverseGeocodeOffline } from "../api/offline-geocoding.ts";
+import { ConcurrencyPool } from "../utils/concurrency-pool.ts";
+
+/**
+ * Start more tasks than the pool allows, finish one and call run() again a few
+ * microtasks later, while the freed slot is being handed over; no API is called
+ */
+async function testConcurrencyPool(): Promise<void> {
+  console.log("\n=== Testing Concurrency Pool ===");
+  const limit = 2;
+  
+  for (let ticks = 0; ticks < 8; ticks++) {
+    const pool = new ConcurrencyPool(limit);
+    const releases: Array<() => void> = [];
+    let active = 0;
+    let peak = 0;
+    
+    const start = () => pool.run(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise<void>((resolve) => releases.push(resolve));
+      active--;
+    });
+    
+    const tasks = [start(), start(), start(), start()];
+    releases.shift()?.();
+    for (let tick = 0; tick < ticks; tick++) {
+      await Promise.resolve();
+    }
+    tasks.push(start());
+    
+    let settled = false;
+    const all = Promise.all(tasks).then(() => { settled = true; });
+    while (!settled) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      releases.shift()?.();
+    }
+    await all;
+    
+    if (peak > limit) {
+      throw new Error(`Pool of ${limit} ran ${peak} tasks at once (run() called ${ticks} microtasks after a release)`);
+    }
+  }
+  console.log(`At most ${limit} tasks ran at once`);
+}
+
+/**
+ * Name locations from the GeoNames extract bundled in data/places/extract
+ */
+async function testOfflineGeocoding(config: Config): Promise<void> {
+  console.log("\n=== Testing Offline Geocoding ===");
+  const offlineConfig = {
+    ...config,
+    apis: { ...config.apis, geocoding: { ...config.apis.geocoding, offlineDataDir: "./data/places/extract" } },
+  };
+  
+  const expected = [
+    { latitude: 45.8326, longitude: 6.8652, name: /^Mont Blanc$/, country: "France", region: "Auvergne-Rhône-Alpes" },
+    { latitude: 45.96, longitude: 6.93, name: /^6 km NE of Chamonix-Mont-Blanc$/, country: "France", region: "Auvergne-Rhône-Alpes" },
+    { latitude: -3.0674, longitude: 37.3556, name: /^Kilimanjaro$/, country: "Tanzania", region: "Kilimanjaro" },
+  ];
+  
+  for (const { latitude, longitude, name, country, region } of expected) {
+    const response = await reverseGeocodeOffline(latitude, longitude, offlineConfig);
+    const data = response.data;
+    if (response.status !== "success" || !data) {
+      throw new Error(`Offline geocoding failed for ${latitude}, ${longitude}: ${response.error}`);
+    }
+    if (!name.test(data.name) || data.country !== country || data.region !== region) {
+      throw new Error(`Unexpected offline name for ${latitude}, ${longitude}: ${data.formattedAddress}`);
+    }
+    console.log(`${latitude}, ${longitude}: ${data.formattedAddress}`);
+  }
+}
 
 async function runApiTests(): Promise<void> {
   console.log("=== Bot Bluesky Reliefs: API Tests ===");
@@ -10,6 +84,9 @@ async function runApiTests(): Promise<void> {
   const config = await setupConfig();
   console.log("Configuration loaded successfully");
   
+  await testConcurrencyPool();
+  await testOfflineGeocoding(config);
+  
   // Test elevation API
   console.log("\n=== Testing Elevation API ===");
   await testElevationAPI(config);
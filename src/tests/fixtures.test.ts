@@ -0,0 +1,96 @@
+import { setupConfig } from "../config/config.ts";
+import { generateReliefFromCoordinate } from "../generators/index.ts";
+import { reverseGeocode } from "../api/geocoding.ts";
+import { InMemoryBot } from "../bot/memory-bot.ts";
+import { fs, parse } from "../deps.ts";
+
+interface KnownPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Places whose API calls are kept as fixtures; main.ts --offline works for any of them
+const KNOWN_PLACES: KnownPlace[] = [
+  { name: "Mont Blanc", latitude: 45.8326, longitude: 6.8652 },
+  { name: "Grand Canyon", latitude: 36.1069, longitude: -112.1129 },
+  { name: "Mount Fuji", latitude: 35.3606, longitude: 138.7274 },
+  { name: "Kilimanjaro", latitude: -3.0674, longitude: 37.3556 },
+];
+
+/**
+ * Run the pipeline for every known place against recorded fixtures,
+ * or record them again with --record (needs network access and API keys)
+ */
+async function runFixtureTests(): Promise<void> {
+  const args = parse(Deno.args, { boolean: ["record"] });
+  const mode = args.record ? "record" : "replay";
+
+  console.log(`=== Bot Bluesky Reliefs: HTTP Fixtures (${mode}) ===`);
+  
+  const config = await setupConfig();
+  config.system.httpFixtures.mode = mode;
+  console.log(`Fixtures directory: ${config.system.httpFixtures.directory}`);
+  
+  if (mode === "replay" && !(await hasFixtures(config.system.httpFixtures.directory))) {
+    throw new Error(`No fixtures in ${config.system.httpFixtures.directory}, record them first with deno task record-fixtures`);
+  }
+  
+  const bot = new InMemoryBot();
+  await bot.login();
+  
+  for (const place of KNOWN_PLACES) {
+    console.log(`\n=== ${place.name} ===`);
+    bot.addComment(`${place.latitude}, ${place.longitude}`, "fixtures.test");
+    
+    const { requests: [request] } = await bot.getNewRequests();
+    await bot.markRequestsRead();
+    if (!request) {
+      throw new Error(`In-memory bot did not pick up the request for ${place.name}`);
+    }
+    
+    const result = await generateReliefFromCoordinate(
+      { latitude: request.latitude, longitude: request.longitude },
+      config
+    );
+    console.log(`Elevation range: ${result.elevationStats.min}m to ${result.elevationStats.max}m (${result.elevationProvider})`);
+    
+    // Same lookup as main.ts, so the natural feature query of the render area is recorded too
+    const location = await reverseGeocode(
+      result.centerCoordinate.latitude,
+      result.centerCoordinate.longitude,
+      config,
+      result.boundingBox
+    );
+    if (location.status !== "success") {
+      throw new Error(`Reverse geocoding failed for ${place.name}: ${location.error}`);
+    }
+    console.log(`Location: ${location.data?.formattedAddress}`);
+    
+    const renderNumber = await bot.getNextRenderNumber();
+    await bot.postWithImage(`//\\ Relief #${renderNumber} ${place.name}`, result.filePath, place.name);
+  }
+  
+  console.log(`\n=== HTTP Fixtures Completed: ${bot.posts.length} posts stored in memory ===`);
+}
+
+/**
+ * Whether any recorded response is on disk
+ */
+async function hasFixtures(directory: string): Promise<boolean> {
+  if (!(await fs.exists(directory, { isDirectory: true }))) {
+    return false;
+  }
+  for await (const _entry of fs.walk(directory, { exts: [".json"], includeDirs: false })) {
+    return true;
+  }
+  return false;
+}
+
+// Run tests
+if (import.meta.main) {
+  runFixtureTests().catch((error: unknown) => {
+    console.error("Fixture tests failed:", error);
+    Deno.exit(1);
+  });
+}
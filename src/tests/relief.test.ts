@@ -1,5 +1,7 @@
-import { setupConfig } from "../config/config.ts";
-import { generateReliefFromCoordinate } from "../generators/index.ts";
+import { Config, setupConfig } from "../config/config.ts";
+import { generateImaginaryRelief, generateReliefFromCoordinate } from "../generators/index.ts";
+import { SYNTHETIC_PRESETS, SyntheticPreset } from "../api/providers/index.ts";
+import { repairElevationGrid } from "../utils/elevation-grid.ts";
 
 interface Location {
   latitude: number;
@@ -35,6 +37,68 @@ async function testLocationRelief(location: Location, config: any, gridResolutio
   }
 }
 
+/**
+ * Render every synthetic preset with a fixed seed and check that analyzeTerrain
+ * puts it in the matching class; no API quota is used
+ */
+async function testSyntheticPresets(config: Config): Promise<void> {
+  console.log("\n=== Generating Imaginary Reliefs ===");
+  
+  for (const preset of Object.keys(SYNTHETIC_PRESETS) as SyntheticPreset[]) {
+    const result = await generateImaginaryRelief(config, { seed: 42, preset, style: "perspective" });
+    const baseType = result.terrainType.replace(/^(low|high)-/, "");
+    console.log(`${preset}: ${result.elevationStats.min}m to ${result.elevationStats.max}m, classified as ${result.terrainType}`);
+    console.log(`Image saved to: ${result.filePath}`);
+    if (baseType !== preset) {
+      throw new Error(`Preset ${preset} was classified as ${result.terrainType}`);
+    }
+  }
+}
+
+/**
+ * Repair synthetic grids: summits and ridge crests must come out unchanged,
+ * a lone spike must be replaced; no API quota is used
+ */
+function testGridRepair(): void {
+  console.log("\n=== Repairing Elevation Grids ===");
+  
+  const resolution = 41;
+  const spacing = 100; // meters between cells
+  const center = (resolution - 1) / 2;
+  const terrains: Record<string, (row: number, column: number) => number> = {
+    cone: (row, column) => 3500 - 0.6 * spacing * Math.hypot(row - center, column - center),
+    summit: (row, column) => row === center && column === center ? 896 : 496,
+    ridge: (_row, column) => 3500 - 0.6 * spacing * Math.abs(column - center),
+  };
+  
+  const grid = Array.from({ length: resolution * resolution }, (_, index) => ({
+    latitude: 45 + Math.floor(index / resolution) * 0.001,
+    longitude: 6 + (index % resolution) * 0.001,
+  }));
+  
+  for (const [name, elevationAt] of Object.entries(terrains)) {
+    const samples = grid.map((point, index) => ({
+      ...point,
+      elevation: elevationAt(Math.floor(index / resolution), index % resolution),
+    }));
+    const expectedMax = Math.round(Math.max(...samples.map((point) => point.elevation)));
+    
+    const repaired = repairElevationGrid(grid, samples, resolution);
+    const max = Math.max(...repaired.data.map((point) => point.elevation));
+    console.log(`${name}: ${repaired.spikeCount} spikes, highest point ${max}m`);
+    if (repaired.spikeCount > 0 || max !== expectedMax) {
+      throw new Error(`Real ${name} was altered: highest point ${max}m, expected ${expectedMax}m`);
+    }
+    
+    // A lone spike on the same terrain goes
+    const spiked = samples.map((point, index) => index === 10 * resolution + 10 ? { ...point, elevation: point.elevation + 3000 } : point);
+    const repairedSpike = repairElevationGrid(grid, spiked, resolution);
+    if (repairedSpike.spikeCount !== 1) {
+      throw new Error(`Expected 1 spike on ${name}, found ${repairedSpike.spikeCount}`);
+    }
+  }
+}
+
 async function runAllTests(): Promise<void> {
   console.log("=== Bot Bluesky Reliefs: Comprehensive Tests ===");
   
@@ -42,6 +106,8 @@ async function runAllTests(): Promise<void> {
   console.log("\nLoading configuration...");
   const config = await setupConfig();
   console.log("Configuration loaded successfully");
+  
+  testGridRepair();
 
   // Test custom location if provided
   const args = Deno.args;
@@ -69,6 +135,8 @@ async function runAllTests(): Promise<void> {
   
   }
   
+  await testSyntheticPresets(config);
+  
   console.log("\n=== All Tests Completed ===");
 }
 
@@ -5,6 +5,13 @@ export interface Coordinate {
   longitude: number;
 }
 
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
 export interface CoordinateArea {
   centerLatitude: number;
   centerLongitude: number;
@@ -184,12 +191,7 @@ export function getCoordinateArea(center: Coordinate, sizeKm: number): Coordinat
 /**
  * Calculate a bounding box for a coordinate area
  */
-export function calculateBoundingBox(area: CoordinateArea): {
-  minLat: number;
-  maxLat: number;
-  minLon: number;
-  maxLon: number;
-} {
+export function calculateBoundingBox(area: CoordinateArea): BoundingBox {
   // Approximate conversion from km to degrees
   // At the equator, 1 degree is about 111 km
   const kmToDegree = 1 / 111;
@@ -209,6 +211,46 @@ export function calculateBoundingBox(area: CoordinateArea): {
   };
 }
 
+/**
+ * Smallest bounding box containing all the coordinates
+ */
+export function getCoordinatesBoundingBox(coordinates: Coordinate[]): BoundingBox {
+  const latitudes = coordinates.map((coordinate) => coordinate.latitude);
+  const longitudes = coordinates.map((coordinate) => coordinate.longitude);
+
+  return {
+    minLat: Math.min(...latitudes),
+    maxLat: Math.max(...latitudes),
+    minLon: Math.min(...longitudes),
+    maxLon: Math.max(...longitudes),
+  };
+}
+
+/**
+ * Great-circle distance between two coordinates in kilometers
+ */
+export function getDistanceKm(from: Coordinate, to: Coordinate): number {
+  const toRadians = Math.PI / 180;
+  const dLat = (to.latitude - from.latitude) * toRadians;
+  const dLon = (to.longitude - from.longitude) * toRadians;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.latitude * toRadians) * Math.cos(to.latitude * toRadians) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Eight-point compass direction of `to` as seen from `from`, e.g. "NE"
+ */
+export function getCompassDirection(from: Coordinate, to: Coordinate): string {
+  const toRadians = Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * toRadians;
+  const y = Math.sin(dLon) * Math.cos(to.latitude * toRadians);
+  const x = Math.cos(from.latitude * toRadians) * Math.sin(to.latitude * toRadians) -
+    Math.sin(from.latitude * toRadians) * Math.cos(to.latitude * toRadians) * Math.cos(dLon);
+  const bearing = (Math.atan2(y, x) / toRadians + 360) % 360;
+  return ["N", "NE", "E", "SE", "S", "SW", "W", "NW"][Math.round(bearing / 45) % 8];
+}
+
 /**
  * Round a coordinate to 6 decimal places (approximately 10cm precision)
  */
@@ -220,7 +262,14 @@ export function roundCoordinate(value: number): number {
  * Generate a grid of coordinates covering an area
  */
 export function generateCoordinateGrid(area: CoordinateArea, resolution = 10): Coordinate[] {
-  const bbox = calculateBoundingBox(area);
+  return generateBoundingBoxGrid(calculateBoundingBox(area), resolution);
+}
+
+/**
+ * Generate a resolution x resolution grid of coordinates spanning a bounding box,
+ * row by row from the south-west corner
+ */
+export function generateBoundingBoxGrid(bbox: BoundingBox, resolution = 10): Coordinate[] {
   const grid: Coordinate[] = [];
   
   // Calculate step size based on resolution
@@ -240,6 +289,13 @@ export function generateCoordinateGrid(area: CoordinateArea, resolution = 10): C
   return grid;
 }
 
+/**
+ * Distance in meters between neighbouring points of a square grid
+ */
+export function getGridSpacing(sizeKm: number, resolution: number): number {
+  return sizeKm * 1000 / Math.max(resolution - 1, 1);
+}
+
 /**
  * Test function for coordinate generation
  */
@@ -0,0 +1,244 @@
+import { fs, path } from "../deps.ts";
+
+export interface DiskCacheOptions {
+  directory: string;
+  maxBytes: number;
+  ttlMs: number;
+}
+
+export interface DiskCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+}
+
+interface DiskCacheEntry {
+  file?: string; // Binary payload stored next to the index
+  value?: unknown; // Small JSON payload stored inline in the index
+  meta?: Record<string, number>;
+  bytes: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+const INDEX_FILE = "index.json";
+
+/**
+ * Size-capped on-disk cache with LRU eviction and a time-to-live.
+ * Entries are kept in access order: the first entry of the index is the least recently used.
+ */
+export class DiskCache {
+  private options: DiskCacheOptions;
+  private index = new Map<string, DiskCacheEntry>();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(options: DiskCacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Read a binary entry, or null if it is missing or expired
+   */
+  async getBytes(key: string): Promise<{ data: Uint8Array; meta: Record<string, number> } | null> {
+    const entry = await this.lookup(key);
+    if (!entry?.file) return this.miss();
+
+    try {
+      const data = await Deno.readFile(path.join(this.options.directory, entry.file));
+      this.hits++;
+      return { data, meta: entry.meta || {} };
+    } catch {
+      // The payload disappeared from disk, forget about it
+      await this.delete(key);
+      return this.miss();
+    }
+  }
+
+  /**
+   * Store a binary entry
+   */
+  async setBytes(key: string, data: Uint8Array, meta?: Record<string, number>): Promise<void> {
+    await this.load();
+
+    const file = `${key.replace(/[^a-zA-Z0-9._-]/g, "_")}.bin`;
+    try {
+      await fs.ensureDir(this.options.directory);
+      await Deno.writeFile(path.join(this.options.directory, file), data);
+    } catch (error: unknown) {
+      console.warn(`Failed to write cache entry ${key}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    this.insert(key, { file, meta, bytes: data.byteLength });
+    await this.persist();
+  }
+
+  /**
+   * Read a JSON entry, or undefined if it is missing or expired
+   */
+  async getValue<T>(key: string): Promise<T | undefined> {
+    const entry = await this.lookup(key);
+    if (!entry) {
+      this.miss();
+      return undefined;
+    }
+    this.hits++;
+    return entry.value as T;
+  }
+
+  /**
+   * Store several JSON entries with a single index write
+   */
+  async setValues(entries: Array<[string, unknown]>): Promise<void> {
+    await this.load();
+
+    for (const [key, value] of entries) {
+      this.insert(key, { value, bytes: JSON.stringify(value).length + key.length });
+    }
+    await this.persist();
+  }
+
+  /**
+   * Whether a live entry exists, without counting a hit or miss
+   */
+  async has(key: string): Promise<boolean> {
+    await this.load();
+    const entry = this.index.get(key);
+    return entry !== undefined && Date.now() - entry.createdAt <= this.options.ttlMs;
+  }
+
+  /**
+   * Hit/miss counters and current size of the cache
+   */
+  stats(): DiskCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.index.size,
+      bytes: this.totalBytes,
+    };
+  }
+
+  /**
+   * Find a live entry and mark it as most recently used
+   */
+  private async lookup(key: string): Promise<DiskCacheEntry | null> {
+    await this.load();
+
+    const entry = this.index.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > this.options.ttlMs) {
+      await this.delete(key);
+      return null;
+    }
+
+    entry.lastAccessed = Date.now();
+    this.index.delete(key);
+    this.index.set(key, entry);
+    this.dirty = true;
+    return entry;
+  }
+
+  private miss(): null {
+    this.misses++;
+    return null;
+  }
+
+  private insert(key: string, entry: Omit<DiskCacheEntry, "createdAt" | "lastAccessed">): void {
+    const previous = this.index.get(key);
+    if (previous) {
+      this.totalBytes -= previous.bytes;
+      this.index.delete(key);
+    }
+
+    const now = Date.now();
+    this.index.set(key, { ...entry, createdAt: now, lastAccessed: now });
+    this.totalBytes += entry.bytes;
+    this.evict();
+  }
+
+  /**
+   * Drop least recently used entries until the cache fits in its size cap
+   */
+  private evict(): void {
+    while (this.totalBytes > this.options.maxBytes && this.index.size > 1) {
+      const oldestKey = this.index.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.remove(oldestKey);
+    }
+  }
+
+  private async delete(key: string): Promise<void> {
+    this.remove(key);
+    await this.persist();
+  }
+
+  private remove(key: string): void {
+    const entry = this.index.get(key);
+    if (!entry) return;
+
+    this.index.delete(key);
+    this.totalBytes -= entry.bytes;
+
+    if (entry.file) {
+      Deno.remove(path.join(this.options.directory, entry.file)).catch(() => {});
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const raw = await Deno.readTextFile(path.join(this.options.directory, INDEX_FILE));
+          const entries = JSON.parse(raw) as Array<[string, DiskCacheEntry]>;
+
+          // Restore in access order so the LRU order survives restarts
+          entries.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+          for (const [key, entry] of entries) {
+            this.index.set(key, entry);
+            this.totalBytes += entry.bytes;
+          }
+        } catch (error: unknown) {
+          if (!(error instanceof Deno.errors.NotFound)) {
+            console.warn(`Ignoring unreadable cache index in ${this.options.directory}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Write the index, coalescing changes made while a write is in progress
+   */
+  private persist(): Promise<void> {
+    this.dirty = true;
+
+    if (!this.saving) {
+      this.saving = (async () => {
+        try {
+          await fs.ensureDir(this.options.directory);
+          while (this.dirty) {
+            this.dirty = false;
+            await Deno.writeTextFile(
+              path.join(this.options.directory, INDEX_FILE),
+              JSON.stringify([...this.index.entries()])
+            );
+          }
+        } catch (error: unknown) {
+          console.warn(`Failed to write cache index: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+          this.saving = null;
+        }
+      })();
+    }
+    return this.saving;
+  }
+}
@@ -0,0 +1,185 @@
+import { ElevationData } from "../api/providers/types.ts";
+import { Coordinate } from "./coordinates.ts";
+
+// Anything outside the deepest trench and the highest summit is a NoData marker
+const MIN_VALID_ELEVATION = -11000;
+const MAX_VALID_ELEVATION = 9000;
+
+const SPIKE_MIN_DIFFERENCE = 500; // meters above the highest (or below the lowest) neighbour, so real summits stay
+const SPIKE_STEP_FACTOR = 8; // ...and this many times the median elevation span of a cell's neighbourhood
+const RELAXATION_PASSES = 20;
+
+export interface RepairedElevationGrid {
+  data: ElevationData[]; // One point per grid coordinate, in grid order
+  missingCount: number; // Points with no usable sample
+  spikeCount: number; // Samples rejected as spikes
+  filledCount: number; // Points whose elevation was interpolated
+  filledPercentage: number;
+}
+
+/**
+ * Whether a sample is a real elevation rather than a NoData marker
+ * (null from OpenTopoData, -32768 from HGT voids and empty Terrarium pixels, ...)
+ */
+export function isValidElevation(value: number | null | undefined): value is number {
+  return typeof value === "number" && isFinite(value) &&
+    value > MIN_VALID_ELEVATION && value < MAX_VALID_ELEVATION;
+}
+
+/**
+ * Turn the samples of a resolution x resolution grid (generateBoundingBoxGrid order)
+ * into a complete grid: missing samples and spikes are flagged, then filled by
+ * interpolating from their neighbours.
+ */
+export function repairElevationGrid(
+  grid: Coordinate[],
+  samples: ElevationData[],
+  resolution: number
+): RepairedElevationGrid {
+  const values = new Float64Array(grid.length).fill(NaN);
+  const sampleByCoordinate = new Map(samples.map((point) => [getGridKey(point), point.elevation]));
+
+  for (let index = 0; index < grid.length; index++) {
+    const elevation = sampleByCoordinate.get(getGridKey(grid[index]));
+    if (isValidElevation(elevation)) {
+      values[index] = elevation;
+    }
+  }
+
+  const missingCount = values.filter((value) => isNaN(value)).length;
+  const spikeCount = rejectSpikes(values, resolution);
+  const holes = Array.from(values, (value) => isNaN(value) ? 1 : 0);
+  const filledCount = missingCount + spikeCount;
+
+  if (filledCount > 0 && filledCount < grid.length) {
+    fillHoles(values, holes, resolution);
+  }
+
+  const data: ElevationData[] = [];
+  for (let index = 0; index < grid.length; index++) {
+    if (!isNaN(values[index])) {
+      data.push({ ...grid[index], elevation: Math.round(values[index]) });
+    }
+  }
+
+  return {
+    data,
+    missingCount,
+    spikeCount,
+    filledCount,
+    filledPercentage: grid.length > 0 ? (filledCount / grid.length) * 100 : 0,
+  };
+}
+
+/**
+ * Flag single samples standing above all of their neighbours, or below all of them,
+ * by far more than the grid's usual step between neighbours. Summits and ridge crests
+ * only rise a step or two above their highest neighbour, so they are kept.
+ * Returns the number of spikes.
+ */
+function rejectSpikes(values: Float64Array, resolution: number): number {
+  const excesses = new Float64Array(values.length).fill(NaN);
+  const steps: number[] = [];
+
+  for (let index = 0; index < values.length; index++) {
+    if (isNaN(values[index])) continue;
+
+    const neighbours = getNeighbours(values, index, resolution);
+    if (neighbours.length < 3) continue;
+
+    const highest = Math.max(...neighbours);
+    const lowest = Math.min(...neighbours);
+    excesses[index] = Math.max(values[index] - highest, lowest - values[index]);
+    steps.push(Math.max(highest, values[index]) - Math.min(lowest, values[index]));
+  }
+
+  if (steps.length === 0) return 0;
+
+  const threshold = Math.max(SPIKE_MIN_DIFFERENCE, SPIKE_STEP_FACTOR * median(steps));
+  let spikes = 0;
+
+  for (let index = 0; index < values.length; index++) {
+    if (excesses[index] > threshold) {
+      values[index] = NaN;
+      spikes++;
+    }
+  }
+
+  return spikes;
+}
+
+/**
+ * Fill holes from the outside in with the mean of known neighbours, then smooth the
+ * filled cells so the patch blends into the surrounding slope
+ */
+function fillHoles(values: Float64Array, holes: number[], resolution: number): void {
+  let remaining = holes.filter((hole) => hole === 1).length;
+
+  while (remaining > 0) {
+    const previous = values.slice();
+    let filledThisPass = 0;
+
+    for (let index = 0; index < values.length; index++) {
+      if (!isNaN(previous[index])) continue;
+
+      const neighbours = getNeighbours(previous, index, resolution);
+      if (neighbours.length > 0) {
+        values[index] = neighbours.reduce((sum, value) => sum + value, 0) / neighbours.length;
+        filledThisPass++;
+      }
+    }
+
+    if (filledThisPass === 0) break;
+    remaining -= filledThisPass;
+  }
+
+  for (let pass = 0; pass < RELAXATION_PASSES; pass++) {
+    const previous = values.slice();
+    for (let index = 0; index < values.length; index++) {
+      if (holes[index] !== 1) continue;
+
+      const neighbours = getNeighbours(previous, index, resolution);
+      if (neighbours.length > 0) {
+        values[index] = neighbours.reduce((sum, value) => sum + value, 0) / neighbours.length;
+      }
+    }
+  }
+}
+
+/**
+ * Known values of the 8 cells around a grid cell
+ */
+function getNeighbours(values: Float64Array, index: number, resolution: number): number[] {
+  const row = Math.floor(index / resolution);
+  const column = index % resolution;
+  const neighbours: number[] = [];
+
+  for (let rowOffset = -1; rowOffset <= 1; rowOffset++) {
+    for (let columnOffset = -1; columnOffset <= 1; columnOffset++) {
+      if (rowOffset === 0 && columnOffset === 0) continue;
+
+      const neighbourRow = row + rowOffset;
+      const neighbourColumn = column + columnOffset;
+      if (neighbourRow < 0 || neighbourRow >= resolution || neighbourColumn < 0 || neighbourColumn >= resolution) {
+        continue;
+      }
+
+      const value = values[neighbourRow * resolution + neighbourColumn];
+      if (!isNaN(value)) {
+        neighbours.push(value);
+      }
+    }
+  }
+
+  return neighbours;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function getGridKey(coordinate: Coordinate): string {
+  return `${coordinate.latitude.toFixed(6)},${coordinate.longitude.toFixed(6)}`;
+}
@@ -0,0 +1,82 @@
+import { fs, path } from "../deps.ts";
+
+interface QuotaEntry {
+  day: string; // UTC date the count belongs to, YYYY-MM-DD
+  count: number;
+}
+
+/**
+ * Daily request counters per provider, kept in a JSON file so they survive restarts.
+ * A counter from an earlier UTC day reads as zero.
+ */
+export class QuotaStore {
+  private filePath: string;
+  private counts = new Map<string, QuotaEntry>();
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Requests made today, loading the file first if needed
+   */
+  async getCount(provider: string): Promise<number> {
+    await this.load();
+    return this.peek(provider);
+  }
+
+  /**
+   * Requests made today as currently known in memory
+   */
+  peek(provider: string): number {
+    const entry = this.counts.get(provider);
+    return entry && entry.day === getUtcDay() ? entry.count : 0;
+  }
+
+  /**
+   * Count one request and write the counters to disk
+   */
+  async increment(provider: string): Promise<number> {
+    await this.load();
+
+    const count = this.peek(provider) + 1;
+    this.counts.set(provider, { day: getUtcDay(), count });
+
+    // Concurrent requests write one after the other, each with the latest counts
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.ensureDir(path.dirname(this.filePath));
+        await Deno.writeTextFile(this.filePath, JSON.stringify(Object.fromEntries(this.counts), null, 2));
+      } catch (error: unknown) {
+        console.warn(`Failed to save request quota: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    await this.saving;
+
+    return count;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const raw = JSON.parse(await Deno.readTextFile(this.filePath)) as Record<string, QuotaEntry>;
+          for (const [provider, entry] of Object.entries(raw)) {
+            this.counts.set(provider, entry);
+          }
+        } catch (error: unknown) {
+          if (!(error instanceof Deno.errors.NotFound)) {
+            console.warn(`Ignoring unreadable request quota file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+}
+
+function getUtcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
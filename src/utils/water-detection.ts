@@ -1,5 +1,11 @@
 import { Config } from "../config/config.ts";
 import { Coordinate, isCoordinateOnLand } from "./coordinates.ts";
+import { getElevationProvider } from "../api/providers/index.ts";
+import { getElevationProviderChain } from "../api/elevation.ts";
+
+// Rings searched around a water coordinate for land, and points per ring
+const LAND_SEARCH_DISTANCES_KM = [5, 10, 20, 40, 80, 160, 320];
+const LAND_SEARCH_BEARINGS = 8;
 
 // Cache for water detection results
 const waterCoordinatesCache = new Map<string, boolean>();
@@ -37,20 +43,25 @@ export async function checkCoordinateIsWater(
     return { isWater: true, method: 'land-bounds', confidence: 0.9 };
   }
 
-  // 2.  Mapbox Tilequery API 
-  if (config.apis.elevation.provider.toLowerCase() === "mapbox") {
+  // 2. Provider water lookup (e.g. Mapbox Tilequery API), first provider of the chain that has one
+  for (const providerConfig of getElevationProviderChain(config)) {
+    const provider = getElevationProvider(providerConfig.apis.elevation.provider);
+    if (!provider?.capabilities.supportsWater || !provider.checkWater) {
+      continue;
+    }
+
     try {
-      const isWater = await checkCoordinateIsWaterWithTilequery(latitude, longitude, config);
+      const isWater = await provider.checkWater(latitude, longitude, providerConfig);
       if (isWater !== null) {
         cacheWaterResult(coordKey, isWater);
         return { 
           isWater, 
-          method: 'tilequery', 
+          method: provider.name, 
           confidence: 0.95 
         };
       }
     } catch (error) {
-      console.warn(`Tilequery water check failed: ${error}`);
+      console.warn(`${provider.name} water check failed: ${error}`);
     }
   }
 
@@ -60,37 +71,34 @@ export async function checkCoordinateIsWater(
 }
 
 /**
- * Check if coordinate is over water using Mapbox Tilequery API
+ * Closest land point found around a water coordinate, searching rings of growing radius;
+ * null when there is none within the largest ring
  */
-async function checkCoordinateIsWaterWithTilequery(
+export async function findNearestLand(
   latitude: number,
   longitude: number,
   config: Config
-): Promise<boolean | null> {
-  const { apiKey } = config.apis.elevation;
-  
-  if (!apiKey) {
-    throw new Error("Mapbox API key is required");
-  }
-
-  const url = `https://api.mapbox.com/v4/mapbox.mapbox-streets-v8/tilequery/${longitude},${latitude}.json?radius=10&layers=water&access_token=${apiKey}`;
-  
-  const response = await fetch(url, {
-    headers: {
-      "Accept": "application/json",
-    }
-  });
-  
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new Error("Rate limit exceeded for Tilequery API");
+): Promise<Coordinate | null> {
+  for (const distanceKm of LAND_SEARCH_DISTANCES_KM) {
+    for (let i = 0; i < LAND_SEARCH_BEARINGS; i++) {
+      const bearing = (i / LAND_SEARCH_BEARINGS) * 2 * Math.PI;
+      const candidateLatitude = latitude + (distanceKm / 111) * Math.cos(bearing);
+      if (Math.abs(candidateLatitude) > 85) continue;
+      
+      const lonOffset = (distanceKm / (111 * Math.cos(candidateLatitude * Math.PI / 180))) * Math.sin(bearing);
+      const candidate = {
+        latitude: Number(candidateLatitude.toFixed(4)),
+        longitude: Number(((((longitude + lonOffset + 180) % 360) + 360) % 360 - 180).toFixed(4)),
+      };
+      
+      const result = await checkCoordinateIsWater(candidate.latitude, candidate.longitude, config);
+      if (!result.isWater) {
+        return candidate;
+      }
     }
-    throw new Error(`Tilequery API error: ${response.status}`);
   }
   
-  const data = await response.json();
-
-  return data.features && data.features.length > 0;
+  return null;
 }
 
 /**